@@ -0,0 +1,285 @@
+import fs from "fs"
+import YAML from "yaml"
+import {
+    ACCOUNTS_CONFIG,
+    AccountRoute,
+    PostData,
+    RATE_LIMITS,
+    readSecret,
+    XAccount,
+    XCredentials,
+} from "./config"
+import { PostingQueue } from "./posting-queue"
+import { logger } from "./utils/logger"
+import { defaultCredentials, XAPIClient } from "./x-api"
+
+const CREDENTIAL_FIELDS: Array<keyof XCredentials> = [
+    "apiKey",
+    "apiSecret",
+    "accessToken",
+    "accessTokenSecret",
+]
+
+/**
+ * Named X accounts and the routing rules that pick one for a post
+ *
+ * The accounts file maps names to credentials (values may reference
+ * environment variables or vault secrets as ${NAME}; accounts without keys use the token
+ * from `auth login`) and lists routes, checked in order:
+ *
+ *   default: us
+ *   accounts:
+ *     us: { apiKey: ${US_API_KEY}, apiSecret: ..., accessToken: ..., accessTokenSecret: ... }
+ *     eu: { ..., rateLimits: { TWEETS: 100 } }
+ *   routes:
+ *     - { account: eu, platforms: [youtube] }
+ *     - { account: eu, usernames: [jane_verifier] }
+ */
+export class AccountRegistry {
+    private accounts = new Map<string, XAccount>()
+    private routes: AccountRoute[] = []
+    private defaultName: string = ACCOUNTS_CONFIG.DEFAULT_ACCOUNT
+
+    /**
+     * Load the accounts file, or the TWITTER_CONFIG credentials as the only
+     * account when there is none
+     */
+    static load(file: string = ACCOUNTS_CONFIG.FILE): AccountRegistry {
+        const registry = new AccountRegistry()
+
+        if (!fs.existsSync(file)) {
+            logger.debug(`Accounts file not found: ${file}`)
+            registry.register({
+                name: ACCOUNTS_CONFIG.DEFAULT_ACCOUNT,
+                credentials: defaultCredentials(),
+            })
+            return registry
+        }
+
+        registry.loadFile(file)
+        return registry
+    }
+
+    /**
+     * Read accounts and routes from a YAML or JSON file
+     * Throws if the file is malformed or a route names an unknown account
+     */
+    loadFile(file: string): void {
+        const raw = fs.readFileSync(file, "utf8")
+        const parsed = file.toLowerCase().endsWith(".json")
+            ? JSON.parse(raw)
+            : YAML.parse(raw)
+
+        if (!parsed || typeof parsed.accounts !== "object" || !parsed.accounts) {
+            throw new Error(`Accounts file ${file} has no accounts`)
+        }
+
+        for (const [name, entry] of Object.entries<any>(parsed.accounts)) {
+            this.register(this.toAccount(name, entry, file))
+        }
+
+        this.defaultName =
+            parsed.default ?? [...this.accounts.keys()][0] ?? this.defaultName
+        if (!this.accounts.has(this.defaultName)) {
+            throw new Error(
+                `Default account "${this.defaultName}" is not defined in ${file}`
+            )
+        }
+
+        const routes: any[] = Array.isArray(parsed.routes) ? parsed.routes : []
+        for (const route of routes) {
+            if (!route || !this.accounts.has(route.account)) {
+                throw new Error(
+                    `Route in ${file} names an unknown account: ${route?.account}`
+                )
+            }
+            this.routes.push({
+                account: route.account,
+                platforms: toList(route.platforms ?? route.platform),
+                usernames: toList(route.usernames ?? route.username)?.map(
+                    (username) => username.replace(/^@/, "")
+                ),
+            })
+        }
+    }
+
+    /**
+     * Add or replace an account
+     */
+    register(account: XAccount): void {
+        this.accounts.set(account.name, account)
+    }
+
+    /**
+     * Get an account by name (the default account when no name is given)
+     */
+    get(name?: string): XAccount {
+        const account = this.accounts.get(name ?? this.defaultName)
+        if (!account) {
+            throw new Error(`Unknown X account: ${name} (see \`accounts list\`)`)
+        }
+        return account
+    }
+
+    has(name: string): boolean {
+        return this.accounts.has(name)
+    }
+
+    get defaultAccount(): string {
+        return this.defaultName
+    }
+
+    /**
+     * All accounts, sorted by name
+     */
+    list(): XAccount[] {
+        return [...this.accounts.values()].sort((a, b) =>
+            a.name.localeCompare(b.name)
+        )
+    }
+
+    listRoutes(): AccountRoute[] {
+        return [...this.routes]
+    }
+
+    /**
+     * Pick the account to post a verification from: the first route whose
+     * conditions all match, else the default account
+     */
+    route(post: Pick<PostData, "platform" | "suremark_username">): string {
+        const match = this.routes.find(
+            (route) =>
+                (!route.platforms ||
+                    (!!post.platform && route.platforms.includes(post.platform))) &&
+                (!route.usernames ||
+                    (!!post.suremark_username &&
+                        route.usernames.includes(post.suremark_username)))
+        )
+        return match?.account ?? this.defaultName
+    }
+
+    /**
+     * Convert an accounts file entry, expanding ${NAME} references
+     */
+    private toAccount(name: string, entry: any, source: string): XAccount {
+        if (!entry || typeof entry !== "object") {
+            throw new Error(`Account "${name}" in ${source} must be an object`)
+        }
+
+        // Accounts without keys authenticate with `auth login` (OAuth 2.0)
+        const keyless = CREDENTIAL_FIELDS.every((field) => entry[field] === undefined)
+        const credentials = {} as XCredentials
+        for (const field of CREDENTIAL_FIELDS) {
+            if (keyless) {
+                credentials[field] = ""
+            } else if (typeof entry[field] !== "string") {
+                throw new Error(`Account "${name}" in ${source} is missing ${field}`)
+            } else {
+                credentials[field] = expandEnv(entry[field])
+            }
+        }
+
+        let rateLimits: XAccount["rateLimits"]
+        if (entry.rateLimits) {
+            rateLimits = {}
+            for (const [endpoint, limit] of Object.entries(entry.rateLimits)) {
+                if (!(endpoint in RATE_LIMITS) || !(Number(limit) > 0)) {
+                    throw new Error(
+                        `Account "${name}" in ${source} has an invalid rate limit: ${endpoint}: ${limit}`
+                    )
+                }
+                rateLimits[endpoint as keyof typeof RATE_LIMITS] = Number(limit)
+            }
+        }
+
+        return {
+            name,
+            credentials,
+            rateLimits,
+            description: entry.description,
+        }
+    }
+}
+
+/**
+ * X clients and posting queues per account, created on first use so each
+ * account posts with its own credentials and within its own rate limits
+ */
+export class XAccountPool {
+    private clients = new Map<string, XAPIClient>()
+    private queues = new Map<string, PostingQueue>()
+
+    constructor(private registry: AccountRegistry = getAccountRegistry()) {}
+
+    /**
+     * Use an existing client and queue for the client's account
+     */
+    add(client: XAPIClient, queue: PostingQueue): void {
+        if (!this.clients.has(client.account)) {
+            this.clients.set(client.account, client)
+            this.queues.set(client.account, queue)
+        }
+    }
+
+    /**
+     * Account a post is routed to
+     */
+    route(post: Pick<PostData, "platform" | "suremark_username">): string {
+        return this.registry.route(post)
+    }
+
+    get defaultAccount(): string {
+        return this.registry.defaultAccount
+    }
+
+    client(name: string): XAPIClient {
+        let client = this.clients.get(name)
+        if (!client) {
+            const account = this.registry.get(name)
+            if (!XAPIClient.validateCredentials(account)) {
+                throw new Error(
+                    `Missing X API credentials for account "${name}" (set its keys or run \`auth login --account ${name}\`)`
+                )
+            }
+            client = new XAPIClient(account)
+            this.clients.set(name, client)
+        }
+        return client
+    }
+
+    queue(name: string): PostingQueue {
+        let queue = this.queues.get(name)
+        if (!queue) {
+            const { rateLimits } = this.registry.get(name)
+            queue = new PostingQueue(rateLimits ? { rateLimits } : {})
+            this.queues.set(name, queue)
+        }
+        return queue
+    }
+}
+
+/**
+ * Replace ${NAME} with the environment variable's value, or the secret of
+ * that name in the secrets vault
+ */
+function expandEnv(value: string): string {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => readSecret(name) ?? "")
+}
+
+function toList(value: unknown): string[] | undefined {
+    return value === undefined
+        ? undefined
+        : (Array.isArray(value) ? value : [value]).map(String)
+}
+
+let defaultRegistry: AccountRegistry | null = null
+
+/**
+ * Shared registry loaded from ACCOUNTS_CONFIG.FILE on first use
+ */
+export function getAccountRegistry(): AccountRegistry {
+    if (!defaultRegistry) {
+        defaultRegistry = AccountRegistry.load()
+    }
+    return defaultRegistry
+}
@@ -0,0 +1,314 @@
+import { XAccountPool } from "./accounts"
+import {
+    AUDIT_CONFIG,
+    AuditAction,
+    AuditEntry,
+    MESSAGE_TEMPLATES,
+    PROCESSING_CONFIG,
+    ProcessedPost,
+    RecheckResult,
+    TweetResult,
+    UnavailableReason,
+} from "./config"
+import { PostDatabase } from "./database"
+import { PostingQueue } from "./posting-queue"
+import { editedNotice, Rechecker } from "./recheck"
+import { renderTemplate } from "./templates"
+import { logger } from "./utils/logger"
+import { truncateToTweetLength } from "./utils/tweet-length"
+import { XAPIClient } from "./x-api"
+
+// Liveness failures that mean the source is gone; login walls and blocks
+// can be temporary or depend on who is looking
+const DELETION_REASONS: UnavailableReason[] = ["not_found", "removed"]
+
+export interface AuditOptions {
+    // Defaults to AUDIT_CONFIG.EDIT_ACTION / DELETE_ACTION
+    editAction?: AuditAction | undefined
+    deleteAction?: AuditAction | undefined
+    // Posts checked per pass (defaults to AUDIT_CONFIG.BATCH_SIZE)
+    batchSize?: number | undefined
+    // Minutes between passes (defaults to AUDIT_CONFIG.INTERVAL)
+    intervalMinutes?: number | undefined
+    // Exit after a single pass instead of repeating
+    once?: boolean | undefined
+    // Only audit posts tweeted from this account
+    account?: string | undefined
+}
+
+export interface AuditPostResult {
+    post: ProcessedPost
+    result: RecheckResult
+    // Set when an action was taken on this pass
+    entry?: AuditEntry
+}
+
+export interface AuditSummary {
+    checked: number
+    edited: number
+    deleted: number
+    actions: number
+    failed: number
+}
+
+/**
+ * Revisits posts we tweeted about, re-checking each source for deletion or
+ * content change and logging, correcting or deleting our verification tweet
+ * as configured. Every action is appended to the post's audit trail.
+ */
+export class PostAuditor {
+    private running = false
+    private wakeUp: (() => void) | null = null
+    private editAction: AuditAction
+    private deleteAction: AuditAction
+
+    constructor(
+        xClient: XAPIClient,
+        private rechecker: Rechecker,
+        private database: PostDatabase,
+        private options: AuditOptions = {},
+        postingQueue: PostingQueue = new PostingQueue(),
+        private accounts: XAccountPool = new XAccountPool()
+    ) {
+        this.accounts.add(xClient, postingQueue)
+        this.editAction = options.editAction ?? AUDIT_CONFIG.EDIT_ACTION
+        this.deleteAction = options.deleteAction ?? AUDIT_CONFIG.DELETE_ACTION
+    }
+
+    /**
+     * Run audit passes on the configured interval until stop() is called
+     * (or after one pass with once)
+     */
+    async start(
+        onPass?: (summary: AuditSummary) => void,
+        onPost?: (result: AuditPostResult) => void
+    ): Promise<void> {
+        const intervalMinutes = this.options.intervalMinutes ?? AUDIT_CONFIG.INTERVAL
+        this.running = true
+        logger.info("Audit started")
+
+        while (this.running) {
+            try {
+                onPass?.(await this.runPass(onPost))
+            } catch (error: any) {
+                logger.error(`Audit pass failed: ${error.message}`)
+            }
+
+            if (this.options.once) break
+
+            if (this.running) {
+                await this.sleep(intervalMinutes * 60 * 1000)
+            }
+        }
+
+        this.running = false
+        logger.info("Audit stopped")
+    }
+
+    /**
+     * Stop after the current post finishes
+     */
+    stop(): void {
+        this.running = false
+        this.wakeUp?.()
+    }
+
+    /**
+     * Audit the least recently checked posts that still have a live
+     * verification tweet
+     */
+    private async runPass(
+        onPost?: (result: AuditPostResult) => void
+    ): Promise<AuditSummary> {
+        const summary: AuditSummary = {
+            checked: 0,
+            edited: 0,
+            deleted: 0,
+            actions: 0,
+            failed: 0,
+        }
+        const posts = await this.database.getPostsToAudit(
+            this.options.batchSize ?? AUDIT_CONFIG.BATCH_SIZE,
+            this.options.account
+        )
+
+        for (const post of posts) {
+            if (!this.running) break
+
+            const audited = await this.auditPost(post)
+            summary.checked++
+            if (audited.result.status === "edited") summary.edited++
+            if (isDeletion(audited.result)) summary.deleted++
+            if (audited.result.status === "failed") summary.failed++
+            if (audited.entry) summary.actions++
+            onPost?.(audited)
+        }
+
+        return summary
+    }
+
+    /**
+     * Re-check one post and act on an edit or deletion, once per finding
+     * A deletion is only acted on once consecutive passes have found it
+     */
+    async auditPost(post: ProcessedPost): Promise<AuditPostResult> {
+        const result = await this.rechecker.compare(post)
+        if (post.recheck?.replyTweetId) {
+            result.replyTweetId = post.recheck.replyTweetId
+        }
+        if (isDeletion(result)) {
+            const previous = isDeletion(post.recheck) ? post.recheck!.deletedPasses ?? 1 : 0
+            result.deletedPasses = previous + 1
+        }
+        await this.database.saveRecheck(post.url, result)
+
+        const finding =
+            result.status === "edited" ? "edited" : isDeletion(result) ? "deleted" : null
+        if (!finding) {
+            return { post, result }
+        }
+        if (post.audit?.some((entry) => entry.finding === finding && entry.success)) {
+            return { post, result }
+        }
+
+        const detail =
+            finding === "edited"
+                ? `${result.changed.join(", ")} changed`
+                : result.error || "source deleted"
+        if (
+            finding === "deleted" &&
+            result.deletedPasses! < AUDIT_CONFIG.DELETE_CONFIRMATIONS
+        ) {
+            logger.info(
+                `Verified post ${post.url} looks deleted (${detail}); ` +
+                    `confirmed ${result.deletedPasses}/${AUDIT_CONFIG.DELETE_CONFIRMATIONS} passes`
+            )
+            return { post, result }
+        }
+
+        const action = finding === "edited" ? this.editAction : this.deleteAction
+        logger.warn(`Verified post ${post.url} was ${finding} (${detail}); action: ${action}`)
+
+        const entry = await this.applyAction(post, finding, detail, action)
+        if (entry.replyTweetId && entry.replyTweetId !== result.replyTweetId) {
+            result.replyTweetId = entry.replyTweetId
+            await this.database.saveRecheck(post.url, result)
+        }
+        await this.database.addAuditEntry(post.url, entry)
+        if (action === "delete" && entry.success) {
+            await this.database.markTweetDeleted(post.url)
+        }
+
+        return { post, result, entry }
+    }
+
+    /**
+     * Carry out the configured action on our verification tweet
+     */
+    private async applyAction(
+        post: ProcessedPost,
+        finding: AuditEntry["finding"],
+        detail: string,
+        action: AuditAction
+    ): Promise<AuditEntry> {
+        const entry: AuditEntry = {
+            at: new Date(),
+            finding,
+            detail,
+            action,
+            success: true,
+        }
+        if (action === "log") {
+            return entry
+        }
+        // Reply once per post, whether recheck or an earlier pass replied
+        if (action === "reply" && post.recheck?.replyTweetId) {
+            logger.info(
+                `Not replying about ${post.url}: follow-up reply ${post.recheck.replyTweetId} already posted`
+            )
+            return { ...entry, replyTweetId: post.recheck.replyTweetId }
+        }
+
+        // Act from the account that posted the verification
+        const account = post.account ?? this.accounts.defaultAccount
+        const tweetId = post.tweet!.id
+        const result =
+            action === "delete"
+                ? await this.deleteThread(account, post.tweet!.threadIds ?? [tweetId])
+                : await this.accounts.queue(account).run("REPLIES", () =>
+                      this.accounts.client(account).replyToTweet(
+                          tweetId,
+                          finding === "edited"
+                              ? editedNotice(post)
+                              : deletedNotice(post, detail)
+                      )
+                  )
+
+        if (!result.success) {
+            logger.error(`Audit ${action} failed for ${post.url}: ${result.error}`)
+            return { ...entry, success: false, error: result.error }
+        }
+        return action === "reply" ? { ...entry, replyTweetId: result.tweet_id } : entry
+    }
+
+    /**
+     * Delete our verification tweet, or every tweet of its thread, last
+     * tweet first
+     */
+    private async deleteThread(
+        account: string,
+        tweetIds: string[]
+    ): Promise<TweetResult> {
+        for (const tweetId of [...tweetIds].reverse()) {
+            const result = await this.accounts.queue(account).run("DELETES", () =>
+                this.accounts.client(account).deleteTweet(tweetId)
+            )
+            if (!result.success) {
+                return result
+            }
+        }
+        return { success: true, tweet_id: tweetIds[0]! }
+    }
+
+    /**
+     * Sleep that can be interrupted by stop()
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.wakeUp = null
+                resolve()
+            }, ms)
+            this.wakeUp = () => {
+                clearTimeout(timer)
+                this.wakeUp = null
+                resolve()
+            }
+        })
+    }
+}
+
+/**
+ * Correction reply noting that a verified post was removed from its source
+ */
+export function deletedNotice(post: ProcessedPost, reason: string): string {
+    const message = renderTemplate(MESSAGE_TEMPLATES.DELETED_NOTICE, {
+        suremark_username: post.suremarkUsername || "suremark_user",
+        post_url: post.url,
+        verified_date: post.processedAt.toISOString().slice(0, 10),
+        reason,
+    })
+    return truncateToTweetLength(message, PROCESSING_CONFIG.MAX_TWEET_LENGTH)
+}
+
+/**
+ * Whether a recheck found the source deleted, as opposed to behind a login
+ * or otherwise unavailable
+ */
+function isDeletion(result: RecheckResult | undefined): boolean {
+    return (
+        result?.status === "unavailable" &&
+        !!result.reason &&
+        DELETION_REASONS.includes(result.reason)
+    )
+}
@@ -0,0 +1,353 @@
+import path from "path"
+import { getAccountRegistry } from "./accounts"
+import { TweetMode } from "./config"
+import { getExtractorRegistry } from "./extractors/registry"
+import { parseRunAt } from "./scheduling"
+import { getTemplateRegistry, validateTemplateBody } from "./templates"
+
+export type BatchInputFormat = "text" | "csv" | "jsonl"
+
+export const BATCH_INPUT_FORMATS: BatchInputFormat[] = ["text", "csv", "jsonl"]
+
+// Row fields; they mirror the options of the tweet command
+const ROW_FIELDS = [
+    "url",
+    "username",
+    "message",
+    "template",
+    "platform",
+    "mode",
+    "account",
+    "scheduled_at",
+]
+
+// Alternative column names accepted for some fields
+const FIELD_ALIASES: Record<string, string> = {
+    suremark_username: "username",
+    at: "scheduled_at",
+    scheduledat: "scheduled_at",
+}
+
+const TWEET_MODES: TweetMode[] = ["standalone", "reply", "quote"]
+
+export interface BatchInputRow {
+    line: number
+    url: string
+    username?: string | undefined
+    message?: string | undefined
+    template?: string | undefined
+    platform?: string | undefined
+    mode?: TweetMode | undefined
+    account?: string | undefined
+    runAt?: Date | undefined
+}
+
+/**
+ * Raised when a batch file has invalid rows; lists every problem found
+ */
+export class BatchInputError extends Error {
+    constructor(
+        public file: string,
+        public errors: string[]
+    ) {
+        super(
+            `${file} has ${errors.length} invalid row(s):\n  ${errors.join("\n  ")}`
+        )
+        this.name = "BatchInputError"
+    }
+}
+
+/**
+ * Pick the input format from --format or the file extension
+ */
+export function detectBatchFormat(
+    file: string,
+    format?: string
+): BatchInputFormat {
+    if (format) {
+        if (!BATCH_INPUT_FORMATS.includes(format as BatchInputFormat)) {
+            throw new Error(
+                `Unknown batch format: ${format} (use ${BATCH_INPUT_FORMATS.join(", ")})`
+            )
+        }
+        return format as BatchInputFormat
+    }
+
+    switch (path.extname(file).toLowerCase()) {
+        case ".csv":
+            return "csv"
+        case ".jsonl":
+        case ".ndjson":
+            return "jsonl"
+        default:
+            return "text"
+    }
+}
+
+/**
+ * Parse and validate every row of a batch file before anything is posted
+ * Throws a BatchInputError listing line-numbered problems
+ */
+export function parseBatchInput(
+    file: string,
+    contents: string,
+    format: BatchInputFormat
+): BatchInputRow[] {
+    const errors: string[] = []
+    const records = readRecords(contents, format, errors)
+    const rows: BatchInputRow[] = []
+
+    for (const { line, fields } of records) {
+        const row = validateRow(line, fields, errors)
+        if (row) {
+            rows.push(row)
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new BatchInputError(file, errors)
+    }
+
+    return rows
+}
+
+/**
+ * Split a file into raw field maps with the line each record starts on
+ */
+function readRecords(
+    contents: string,
+    format: BatchInputFormat,
+    errors: string[]
+): Array<{ line: number; fields: Record<string, string> }> {
+    if (format === "text") {
+        return contents
+            .split("\n")
+            .map((text, index) => ({ line: index + 1, text: text.trim() }))
+            .filter(({ text }) => text && !text.startsWith("#"))
+            .map(({ line, text }) => ({ line, fields: { url: text } }))
+    }
+
+    if (format === "jsonl") {
+        const records: Array<{ line: number; fields: Record<string, string> }> = []
+        contents.split("\n").forEach((text, index) => {
+            const line = index + 1
+            if (!text.trim() || text.trim().startsWith("#")) return
+
+            try {
+                const value = JSON.parse(text)
+                if (!value || typeof value !== "object" || Array.isArray(value)) {
+                    errors.push(`Line ${line}: expected a JSON object`)
+                    return
+                }
+                const fields: Record<string, string> = {}
+                for (const [key, field] of Object.entries(value)) {
+                    if (field !== null && field !== undefined) {
+                        fields[normalizeField(key)] = String(field)
+                    }
+                }
+                records.push({ line, fields })
+            } catch (error: any) {
+                errors.push(`Line ${line}: invalid JSON (${error.message})`)
+            }
+        })
+        return records
+    }
+
+    const rows = parseCsv(contents)
+    const header = rows.shift()
+    if (!header) {
+        return []
+    }
+
+    const columns = header.values.map(normalizeField)
+    for (const column of columns) {
+        if (!ROW_FIELDS.includes(column)) {
+            errors.push(`Line ${header.line}: unknown column "${column}"`)
+        }
+    }
+    if (!columns.includes("url")) {
+        errors.push(`Line ${header.line}: missing required column "url"`)
+    }
+
+    return rows
+        .filter((row) => row.values.some((value) => value.trim()))
+        .map((row) => {
+            if (row.values.length !== columns.length) {
+                errors.push(
+                    `Line ${row.line}: expected ${columns.length} columns, found ${row.values.length}`
+                )
+            }
+            const fields: Record<string, string> = {}
+            columns.forEach((column, index) => {
+                const value = row.values[index]
+                if (value !== undefined && value !== "") {
+                    fields[column] = value
+                }
+            })
+            return { line: row.line, fields }
+        })
+}
+
+/**
+ * Check a record's fields and convert them to a row
+ */
+function validateRow(
+    line: number,
+    fields: Record<string, string>,
+    errors: string[]
+): BatchInputRow | null {
+    const rowErrors: string[] = []
+    const value = (name: string) => fields[name]?.trim() || undefined
+
+    for (const key of Object.keys(fields)) {
+        if (!ROW_FIELDS.includes(key)) {
+            rowErrors.push(`unknown field "${key}"`)
+        }
+    }
+
+    const url = value("url")
+    if (!url) {
+        rowErrors.push("missing url")
+    } else if (!isHttpUrl(url)) {
+        rowErrors.push(`invalid url "${url}"`)
+    }
+
+    const username = value("username")?.replace(/^@/, "")
+    if (username !== undefined && !/^\w{1,50}$/.test(username)) {
+        rowErrors.push(`invalid username "${username}"`)
+    }
+
+    const message = fields.message
+    if (message?.trim()) {
+        const messageErrors = validateTemplateBody(message)
+        if (messageErrors.length > 0) {
+            rowErrors.push(`invalid message: ${messageErrors.join("; ")}`)
+        }
+    }
+
+    const template = value("template")
+    if (template && !getTemplateRegistry().get(template)) {
+        rowErrors.push(`unknown template "${template}"`)
+    }
+
+    const platform = value("platform")?.toLowerCase()
+    if (platform && !knownPlatforms().includes(platform)) {
+        rowErrors.push(`unknown platform "${platform}"`)
+    }
+
+    const mode = value("mode")?.toLowerCase()
+    if (mode && !TWEET_MODES.includes(mode as TweetMode)) {
+        rowErrors.push(`invalid mode "${mode}" (use ${TWEET_MODES.join(", ")})`)
+    }
+
+    const account = value("account")
+    if (account && !getAccountRegistry().has(account)) {
+        rowErrors.push(`unknown account "${account}"`)
+    }
+
+    let runAt: Date | undefined
+    const scheduledAt = value("scheduled_at")
+    if (scheduledAt) {
+        try {
+            runAt = parseRunAt(scheduledAt)
+        } catch (error: any) {
+            rowErrors.push(error.message)
+        }
+    }
+
+    if (rowErrors.length > 0 || !url) {
+        errors.push(...rowErrors.map((error) => `Line ${line}: ${error}`))
+        return null
+    }
+
+    return {
+        line,
+        url,
+        username,
+        // Messages keep their whitespace
+        message: message || undefined,
+        template,
+        platform,
+        mode: mode as TweetMode | undefined,
+        account,
+        runAt,
+    }
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields may contain commas, doubled
+ * quotes and newlines. Returns each record with the line it starts on.
+ */
+function parseCsv(contents: string): Array<{ line: number; values: string[] }> {
+    const records: Array<{ line: number; values: string[] }> = []
+    let values: string[] = []
+    let field = ""
+    let inQuotes = false
+    let line = 1
+    let recordLine = 1
+
+    const endRecord = () => {
+        values.push(field)
+        records.push({ line: recordLine, values })
+        values = []
+        field = ""
+    }
+
+    const text = contents.replace(/^\uFEFF/, "")
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                if (char === "\n") line++
+                field += char
+            }
+            continue
+        }
+
+        if (char === '"') {
+            inQuotes = true
+        } else if (char === ",") {
+            values.push(field)
+            field = ""
+        } else if (char === "\n") {
+            endRecord()
+            line++
+            recordLine = line
+        } else if (char !== "\r") {
+            field += char
+        }
+    }
+
+    if (field || values.length > 0) {
+        endRecord()
+    }
+
+    return records
+}
+
+function normalizeField(name: string): string {
+    const key = name.trim().toLowerCase()
+    return FIELD_ALIASES[key] || key
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value)
+        return url.protocol === "http:" || url.protocol === "https:"
+    } catch {
+        return false
+    }
+}
+
+function knownPlatforms(): string[] {
+    const platforms = getExtractorRegistry()
+        .list()
+        .map((extractor) => extractor.platform)
+    return [...new Set([...platforms, "website", "article"])]
+}
@@ -0,0 +1,220 @@
+import crypto from "crypto"
+import {
+    BatchRun,
+    BatchRunItem,
+    JOB_CONFIG,
+    VerificationJobOptions,
+} from "./config"
+import { PostDatabase } from "./database"
+import { remainingPartialThread, VerificationPipeline } from "./pipeline"
+import { logger } from "./utils/logger"
+
+export interface BatchProgress {
+    index: number
+    total: number
+    item: BatchRunItem
+}
+
+export interface BatchSummary {
+    processed: number
+    scheduled: number
+    skipped: number
+    failed: number
+    remaining: number
+}
+
+/**
+ * Runs the pending items of a batch run manifest through the verification
+ * pipeline, recording each URL's outcome so an interrupted run can resume
+ */
+export class BatchRunner {
+    private running = false
+    private wakeUp: (() => void) | null = null
+
+    constructor(
+        private pipeline: VerificationPipeline,
+        private database: PostDatabase
+    ) {}
+
+    /**
+     * Process every pending item of a run until done or stop() is called
+     */
+    async run(
+        run: BatchRun,
+        onProgress?: (progress: BatchProgress) => void
+    ): Promise<BatchSummary> {
+        const runId = run._id!
+        const summary: BatchSummary = {
+            processed: 0,
+            scheduled: 0,
+            skipped: 0,
+            failed: 0,
+            remaining: 0,
+        }
+        this.running = true
+
+        await this.database.updateBatchRunStatus(runId, "running")
+
+        for (const [index, item] of run.items.entries()) {
+            if (item.status !== "pending") continue
+            if (!this.running) {
+                summary.remaining++
+                continue
+            }
+
+            onProgress?.({ index, total: run.items.length, item })
+
+            item.startedAt = new Date()
+            await this.database.updateBatchRunItem(runId, index, item)
+
+            // Row values override the run-wide options; a retried row first
+            // deletes what its failed thread left posted
+            const options = {
+                ...run.options,
+                ...definedOptions(item.options),
+                partialThreadIds: item.partialThreadIds,
+            }
+
+            let posted = false
+            try {
+                if (item.runAt && !run.options.dryRun) {
+                    // Rows with a scheduled time are handed to the job queue
+                    const [jobId] = await this.database.enqueueJobs([
+                        {
+                            url: item.url,
+                            runAt: item.runAt,
+                            options: {
+                                username: options.username,
+                                platform: options.platform,
+                                message: options.message,
+                                template: options.template,
+                                mode: options.mode,
+                                account: options.account,
+                            },
+                            maxAttempts: JOB_CONFIG.MAX_ATTEMPTS,
+                        },
+                    ])
+                    item.status = "scheduled"
+                    item.jobId = jobId
+                } else {
+                    const outcome = await this.pipeline.verify(item.url, options)
+
+                    item.status = outcome.status
+                    item.error =
+                        outcome.status === "failed" ? outcome.error : undefined
+                    item.tweetId = outcome.result?.tweet_id
+                    item.partialThreadIds = remainingPartialThread(
+                        outcome,
+                        item.partialThreadIds
+                    )
+                    posted =
+                        outcome.status === "posted" || outcome.status === "failed"
+                }
+            } catch (error: any) {
+                item.status = "failed"
+                item.error = error.message
+                logger.error(`Error processing ${item.url}: ${error.message}`)
+            }
+
+            item.finishedAt = new Date()
+            await this.database.updateBatchRunItem(runId, index, item)
+
+            if (item.status === "scheduled") {
+                summary.scheduled++
+            } else if (item.status === "skipped") {
+                summary.skipped++
+            } else if (item.status === "failed") {
+                summary.failed++
+            } else {
+                summary.processed++
+            }
+
+            // Delay between tweets
+            if (posted && this.running && !run.options.dryRun) {
+                await this.sleep(run.options.delay * 1000)
+            }
+        }
+
+        const finished = this.running
+        this.running = false
+        await this.database.updateBatchRunStatus(
+            runId,
+            finished ? "completed" : "interrupted"
+        )
+
+        return summary
+    }
+
+    /**
+     * Stop after the current item; the run is marked interrupted
+     */
+    stop(): void {
+        this.running = false
+        this.wakeUp?.()
+    }
+
+    /**
+     * Sleep that can be interrupted by stop()
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.wakeUp = null
+                resolve()
+            }, ms)
+            this.wakeUp = () => {
+                clearTimeout(timer)
+                this.wakeUp = null
+                resolve()
+            }
+        })
+    }
+}
+
+/**
+ * Drop undefined values so they do not override run-wide options
+ */
+function definedOptions(
+    options: VerificationJobOptions | undefined
+): Partial<VerificationJobOptions> {
+    return Object.fromEntries(
+        Object.entries(options || {}).filter(
+            ([, value]) => value !== undefined && value !== null
+        )
+    )
+}
+
+/**
+ * SHA-256 of a batch input file's contents
+ */
+export function hashFileContents(contents: string | Buffer): string {
+    return crypto.createHash("sha256").update(contents).digest("hex")
+}
+
+/**
+ * Reset a run's failed items to pending so they are retried
+ */
+export function resetFailedItems(run: BatchRun): number {
+    let reset = 0
+    for (const item of run.items) {
+        if (item.status === "failed") {
+            item.status = "pending"
+            item.error = undefined
+            item.startedAt = undefined
+            item.finishedAt = undefined
+            reset++
+        }
+    }
+    return reset
+}
+
+/**
+ * Count a run's items by status
+ */
+export function countItemsByStatus(run: BatchRun): Record<string, number> {
+    const counts: Record<string, number> = {}
+    for (const item of run.items) {
+        counts[item.status] = (counts[item.status] || 0) + 1
+    }
+    return counts
+}
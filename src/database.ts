@@ -1,11 +1,30 @@
 import { Collection, Db, MongoClient, ObjectId } from "mongodb"
-import { DATABASE_CONFIG, ProcessedPost } from "./config"
+import {
+    ACCOUNTS_CONFIG,
+    AuditEntry,
+    BatchRun,
+    BatchRunItem,
+    DATABASE_CONFIG,
+    JobStatus,
+    MonitorSubscription,
+    ProcessedPost,
+    RecheckResult,
+    TweetMode,
+    VerificationJob,
+    VerificationJobOptions,
+} from "./config"
 import { logger } from "./utils/logger"
 
+// Stored post document (MongoDB assigns _id)
+type PostRecord = Omit<ProcessedPost, "_id">
+
 export class PostDatabase {
     private client: MongoClient | null = null
     private db: Db | null = null
-    private collection: Collection | null = null
+    private collection: Collection<PostRecord> | null = null
+    private monitorCollection: Collection | null = null
+    private jobsCollection: Collection | null = null
+    private batchRunsCollection: Collection | null = null
 
     /**
      * Initialize database connection and create indexes
@@ -16,14 +35,33 @@ export class PostDatabase {
             await this.client.connect()
 
             this.db = this.client.db(DATABASE_CONFIG.DATABASE)
-            this.collection = this.db.collection(DATABASE_CONFIG.COLLECTION)
+            this.collection = this.db.collection<PostRecord>(DATABASE_CONFIG.COLLECTION)
 
             // Create indexes for better performance
             await this.collection.createIndex({ url: 1 }, { unique: true })
+            await this.collection.createIndex({ canonicalKey: 1 })
             await this.collection.createIndex({ processedAt: -1 })
             await this.collection.createIndex({ platform: 1 })
             await this.collection.createIndex({ suremarkUsername: 1 })
 
+            this.monitorCollection = this.db.collection(
+                DATABASE_CONFIG.MONITOR_COLLECTION
+            )
+            await this.monitorCollection.createIndex(
+                { type: 1, target: 1 },
+                { unique: true }
+            )
+
+            this.jobsCollection = this.db.collection(
+                DATABASE_CONFIG.JOBS_COLLECTION
+            )
+            await this.jobsCollection.createIndex({ status: 1, runAt: 1 })
+
+            this.batchRunsCollection = this.db.collection(
+                DATABASE_CONFIG.BATCH_RUNS_COLLECTION
+            )
+            await this.batchRunsCollection.createIndex({ createdAt: -1 })
+
             logger.info("MongoDB database initialized successfully")
         } catch (error) {
             logger.error(`Database initialization failed: ${error}`)
@@ -33,16 +71,17 @@ export class PostDatabase {
 
     /**
      * Check if a post has already been successfully processed
+     * Compares canonical keys, so different links to one post match
      */
-    async isPostProcessed(url: string): Promise<boolean> {
+    async isPostProcessed(canonicalKey: string): Promise<boolean> {
         if (!this.collection) {
             throw new Error("Database not initialized")
         }
 
         try {
-            const result = await this.collection.findOne({ 
-                url, 
-                success: { $eq: true } 
+            const result = await this.collection.findOne({
+                canonicalKey,
+                success: { $eq: true },
             })
             return !!result
         } catch (error) {
@@ -53,6 +92,8 @@ export class PostDatabase {
 
     /**
      * Save a processed post to the database
+     * Dry-run and failed records for the same URL are replaced, so a source
+     * can be retried; successful records are never overwritten
      */
     async saveProcessedPost(post: ProcessedPost): Promise<void> {
         if (!this.collection) {
@@ -62,6 +103,7 @@ export class PostDatabase {
         try {
             const document = {
                 url: post.url,
+                canonicalKey: post.canonicalKey,
                 platform: post.platform,
                 processedAt: post.processedAt,
                 suremarkUsername: post.suremarkUsername,
@@ -70,9 +112,14 @@ export class PostDatabase {
                 author: post.author,
                 success: post.success,
                 metadata: post.metadata,
+                extraction: post.extraction,
+                failure: post.failure,
+                verificationId: post.verificationId,
+                account: post.account,
+                fingerprint: post.fingerprint,
             }
 
-            await this.collection.insertOne(document)
+            await this.replaceUnsuccessful(document)
             logger.info(`Saved processed post: ${post.url}`)
         } catch (error: any) {
             if (error.code === 11000) {
@@ -85,10 +132,29 @@ export class PostDatabase {
         }
     }
 
+    /**
+     * Insert a post record, replacing an earlier dry-run or failed record for
+     * the URL. A successful record makes the upsert hit the unique url index.
+     */
+    private async replaceUnsuccessful(document: PostRecord): Promise<void> {
+        await this.collection!.replaceOne(
+            { url: document.url, success: { $ne: true } },
+            document,
+            { upsert: true }
+        )
+    }
+
     /**
      * Save a successfully processed post with tweet info
      */
-    async saveSuccessfulPost(post: ProcessedPost, tweetId: string, tweetUrl: string): Promise<void> {
+    async saveSuccessfulPost(
+        post: ProcessedPost,
+        tweetId: string,
+        tweetUrl: string,
+        mode: TweetMode = "standalone",
+        parentId?: string,
+        threadIds?: string[]
+    ): Promise<void> {
         if (!this.collection) {
             throw new Error("Database not initialized")
         }
@@ -96,6 +162,7 @@ export class PostDatabase {
         try {
             const document = {
                 url: post.url,
+                canonicalKey: post.canonicalKey,
                 platform: post.platform,
                 processedAt: post.processedAt,
                 suremarkUsername: post.suremarkUsername,
@@ -107,11 +174,19 @@ export class PostDatabase {
                     id: tweetId,
                     url: tweetUrl,
                     postedAt: new Date(),
+                    mode,
+                    ...(parentId ? { parentId } : {}),
+                    ...(threadIds ? { threadIds } : {}),
                 },
                 metadata: post.metadata,
+                extraction: post.extraction,
+                verificationId: post.verificationId,
+                account: post.account,
+                fingerprint: post.fingerprint,
+                media: post.media,
             }
 
-            await this.collection.insertOne(document)
+            await this.replaceUnsuccessful(document)
             logger.info(`Saved successful post: ${post.url}`)
         } catch (error: any) {
             if (error.code === 11000) {
@@ -175,6 +250,7 @@ export class PostDatabase {
             return documents.map((doc) => ({
                 _id: doc._id?.toString(),
                 url: doc.url,
+                canonicalKey: doc.canonicalKey,
                 platform: doc.platform,
                 processedAt: doc.processedAt,
                 suremarkUsername: doc.suremarkUsername,
@@ -183,6 +259,14 @@ export class PostDatabase {
                 author: doc.author,
                 tweet: doc.tweet,
                 metadata: doc.metadata,
+                extraction: doc.extraction,
+                failure: doc.failure,
+                verificationId: doc.verificationId,
+                account: doc.account,
+                media: doc.media,
+                fingerprint: doc.fingerprint,
+                recheck: doc.recheck,
+                audit: doc.audit,
             }))
         } catch (error) {
             logger.error(`Error getting processed posts: ${error}`)
@@ -211,6 +295,7 @@ export class PostDatabase {
             return documents.map((doc) => ({
                 _id: doc._id?.toString(),
                 url: doc.url,
+                canonicalKey: doc.canonicalKey,
                 platform: doc.platform,
                 processedAt: doc.processedAt,
                 suremarkUsername: doc.suremarkUsername,
@@ -219,6 +304,14 @@ export class PostDatabase {
                 author: doc.author,
                 tweet: doc.tweet,
                 metadata: doc.metadata,
+                extraction: doc.extraction,
+                failure: doc.failure,
+                verificationId: doc.verificationId,
+                account: doc.account,
+                media: doc.media,
+                fingerprint: doc.fingerprint,
+                recheck: doc.recheck,
+                audit: doc.audit,
             }))
         } catch (error) {
             logger.error(`Error getting processed posts by platform: ${error}`)
@@ -247,6 +340,7 @@ export class PostDatabase {
             return documents.map((doc) => ({
                 _id: doc._id?.toString(),
                 url: doc.url,
+                canonicalKey: doc.canonicalKey,
                 platform: doc.platform,
                 processedAt: doc.processedAt,
                 suremarkUsername: doc.suremarkUsername,
@@ -255,6 +349,14 @@ export class PostDatabase {
                 author: doc.author,
                 tweet: doc.tweet,
                 metadata: doc.metadata,
+                extraction: doc.extraction,
+                failure: doc.failure,
+                verificationId: doc.verificationId,
+                account: doc.account,
+                media: doc.media,
+                fingerprint: doc.fingerprint,
+                recheck: doc.recheck,
+                audit: doc.audit,
             }))
         } catch (error) {
             logger.error(`Error getting processed posts by username: ${error}`)
@@ -263,14 +365,15 @@ export class PostDatabase {
     }
 
     /**
-     * Get statistics about processed posts
+     * Get statistics about processed posts, optionally for one account
      */
-    async getStatistics(): Promise<{
+    async getStatistics(account?: string): Promise<{
         total: number
         successful: number
         failed: number
         byPlatform: Record<string, number>
         byUsername: Record<string, number>
+        byAccount: Record<string, number>
         today: number
         thisWeek: number
         thisMonth: number
@@ -280,14 +383,22 @@ export class PostDatabase {
         }
 
         try {
+            const scope = accountFilter(account)
+
             // Total posts
-            const total = await this.collection.countDocuments()
-            const successful = await this.collection.countDocuments({ success: true })
-            const failed = await this.collection.countDocuments({ success: false })
+            const total = await this.collection.countDocuments(scope)
+            const successful = await this.collection.countDocuments({
+                ...scope,
+                success: true,
+            })
+            const failed = await this.collection.countDocuments({
+                ...scope,
+                success: false,
+            })
 
             // Posts by platform (only successful ones)
             const platformPipeline = [
-                { $match: { success: true } },
+                { $match: { ...scope, success: true } },
                 { $group: { _id: "$platform", count: { $sum: 1 } } },
                 { $sort: { count: -1 } },
             ]
@@ -302,7 +413,13 @@ export class PostDatabase {
 
             // Posts by username (only successful ones)
             const usernamePipeline = [
-                { $match: { success: true, suremarkUsername: { $exists: true, $ne: null } } },
+                {
+                    $match: {
+                        ...scope,
+                        success: true,
+                        suremarkUsername: { $exists: true, $ne: null },
+                    },
+                },
                 { $group: { _id: "$suremarkUsername", count: { $sum: 1 } } },
                 { $sort: { count: -1 } },
             ]
@@ -315,10 +432,32 @@ export class PostDatabase {
                 byUsername[result._id] = result.count
             })
 
+            // Posts by account (only successful ones); posts from before
+            // accounts were recorded went out from the default credentials
+            const accountPipeline = [
+                { $match: { ...scope, success: true } },
+                {
+                    $group: {
+                        _id: { $ifNull: ["$account", ACCOUNTS_CONFIG.DEFAULT_ACCOUNT] },
+                        count: { $sum: 1 },
+                    },
+                },
+                { $sort: { count: -1 } },
+            ]
+            const accountResults = await this.collection
+                .aggregate(accountPipeline)
+                .toArray()
+
+            const byAccount: Record<string, number> = {}
+            accountResults.forEach((result: any) => {
+                byAccount[result._id] = result.count
+            })
+
             // Posts today (only successful ones)
             const today = new Date()
             today.setHours(0, 0, 0, 0)
             const todayCount = await this.collection.countDocuments({
+                ...scope,
                 processedAt: { $gte: today },
                 success: true,
             })
@@ -327,6 +466,7 @@ export class PostDatabase {
             const thisWeek = new Date()
             thisWeek.setDate(thisWeek.getDate() - 7)
             const weekCount = await this.collection.countDocuments({
+                ...scope,
                 processedAt: { $gte: thisWeek },
                 success: true,
             })
@@ -336,6 +476,7 @@ export class PostDatabase {
             thisMonth.setDate(1)
             thisMonth.setHours(0, 0, 0, 0)
             const monthCount = await this.collection.countDocuments({
+                ...scope,
                 processedAt: { $gte: thisMonth },
                 success: true,
             })
@@ -346,6 +487,7 @@ export class PostDatabase {
                 failed,
                 byPlatform,
                 byUsername,
+                byAccount,
                 today: todayCount,
                 thisWeek: weekCount,
                 thisMonth: monthCount,
@@ -358,6 +500,7 @@ export class PostDatabase {
                 failed: 0,
                 byPlatform: {},
                 byUsername: {},
+                byAccount: {},
                 today: 0,
                 thisWeek: 0,
                 thisMonth: 0,
@@ -366,11 +509,12 @@ export class PostDatabase {
     }
 
     /**
-     * Search posts by content or title
+     * Search posts by content or title, optionally from one account
      */
     async searchPosts(
         query: string,
-        limit: number = 20
+        limit: number = 20,
+        account?: string
     ): Promise<ProcessedPost[]> {
         if (!this.collection) {
             throw new Error("Database not initialized")
@@ -379,6 +523,7 @@ export class PostDatabase {
         try {
             const cursor = this.collection
                 .find({
+                    ...accountFilter(account),
                     $or: [
                         { title: { $regex: query, $options: "i" } },
                         { content: { $regex: query, $options: "i" } },
@@ -393,6 +538,7 @@ export class PostDatabase {
             return documents.map((doc) => ({
                 _id: doc._id?.toString(),
                 url: doc.url,
+                canonicalKey: doc.canonicalKey,
                 platform: doc.platform,
                 processedAt: doc.processedAt,
                 suremarkUsername: doc.suremarkUsername,
@@ -401,6 +547,14 @@ export class PostDatabase {
                 author: doc.author,
                 tweet: doc.tweet,
                 metadata: doc.metadata,
+                extraction: doc.extraction,
+                failure: doc.failure,
+                verificationId: doc.verificationId,
+                account: doc.account,
+                media: doc.media,
+                fingerprint: doc.fingerprint,
+                recheck: doc.recheck,
+                audit: doc.audit,
             }))
         } catch (error) {
             logger.error(`Error searching posts: ${error}`)
@@ -408,6 +562,160 @@ export class PostDatabase {
         }
     }
 
+    /**
+     * Tweeted posts with a fingerprint, least recently rechecked first
+     */
+    async getPostsToRecheck(
+        limit: number = 50,
+        url?: string,
+        account?: string
+    ): Promise<ProcessedPost[]> {
+        if (!this.collection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const cursor = this.collection
+                .find({
+                    success: true,
+                    fingerprint: { $exists: true },
+                    ...(url ? { url } : {}),
+                    ...accountFilter(account),
+                })
+                // Never-rechecked posts (no recheck field) sort first
+                .sort({ "recheck.checkedAt": 1, processedAt: 1 })
+                .limit(limit)
+
+            const documents = await cursor.toArray()
+
+            return documents.map((doc) => ({
+                _id: doc._id?.toString(),
+                url: doc.url,
+                canonicalKey: doc.canonicalKey,
+                platform: doc.platform,
+                processedAt: doc.processedAt,
+                suremarkUsername: doc.suremarkUsername,
+                title: doc.title,
+                content: doc.content,
+                author: doc.author,
+                tweet: doc.tweet,
+                metadata: doc.metadata,
+                extraction: doc.extraction,
+                failure: doc.failure,
+                verificationId: doc.verificationId,
+                account: doc.account,
+                media: doc.media,
+                fingerprint: doc.fingerprint,
+                recheck: doc.recheck,
+                audit: doc.audit,
+            }))
+        } catch (error) {
+            logger.error(`Error getting posts to recheck: ${error}`)
+            return []
+        }
+    }
+
+    /**
+     * Store the latest recheck result on a post
+     */
+    async saveRecheck(url: string, result: RecheckResult): Promise<void> {
+        if (!this.collection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            await this.collection.updateOne({ url }, { $set: { recheck: result } })
+        } catch (error) {
+            logger.error(`Error saving recheck result: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Posts with a live verification tweet, least recently rechecked first
+     */
+    async getPostsToAudit(
+        limit: number = 50,
+        account?: string
+    ): Promise<ProcessedPost[]> {
+        if (!this.collection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const cursor = this.collection
+                .find({
+                    tweet: { $exists: true },
+                    "tweet.deletedAt": { $exists: false },
+                    ...accountFilter(account),
+                })
+                .sort({ "recheck.checkedAt": 1, processedAt: 1 })
+                .limit(limit)
+
+            const documents = await cursor.toArray()
+
+            return documents.map((doc) => ({
+                _id: doc._id?.toString(),
+                url: doc.url,
+                canonicalKey: doc.canonicalKey,
+                platform: doc.platform,
+                processedAt: doc.processedAt,
+                suremarkUsername: doc.suremarkUsername,
+                title: doc.title,
+                content: doc.content,
+                author: doc.author,
+                tweet: doc.tweet,
+                metadata: doc.metadata,
+                extraction: doc.extraction,
+                failure: doc.failure,
+                verificationId: doc.verificationId,
+                account: doc.account,
+                media: doc.media,
+                fingerprint: doc.fingerprint,
+                recheck: doc.recheck,
+                audit: doc.audit,
+            }))
+        } catch (error) {
+            logger.error(`Error getting posts to audit: ${error}`)
+            return []
+        }
+    }
+
+    /**
+     * Append an entry to a post's audit trail
+     */
+    async addAuditEntry(url: string, entry: AuditEntry): Promise<void> {
+        if (!this.collection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            await this.collection.updateOne({ url }, { $push: { audit: entry } })
+        } catch (error) {
+            logger.error(`Error saving audit entry: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Mark a post's verification tweet as deleted
+     */
+    async markTweetDeleted(url: string): Promise<void> {
+        if (!this.collection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            await this.collection.updateOne(
+                { url },
+                { $set: { "tweet.deletedAt": new Date() } }
+            )
+        } catch (error) {
+            logger.error(`Error marking tweet deleted: ${error}`)
+            throw error
+        }
+    }
+
     /**
      * Delete a processed post (for cleanup)
      */
@@ -429,6 +737,550 @@ export class PostDatabase {
         }
     }
 
+    /**
+     * Set canonicalKey on records saved before it existed
+     * Returns how many records were updated and which URLs failed
+     */
+    async backfillCanonicalKeys(
+        canonicalize: (url: string) => Promise<string>
+    ): Promise<{ updated: number; failed: string[] }> {
+        if (!this.collection) {
+            throw new Error("Database not initialized")
+        }
+
+        const cursor = this.collection.find(
+            { canonicalKey: { $exists: false } },
+            { projection: { url: 1 } }
+        )
+        let updated = 0
+        const failed: string[] = []
+
+        for await (const doc of cursor) {
+            try {
+                const canonicalKey = await canonicalize(doc.url)
+                await this.collection.updateOne(
+                    { _id: doc._id },
+                    { $set: { canonicalKey } }
+                )
+                updated++
+            } catch (error) {
+                logger.error(`Error backfilling canonical key for ${doc.url}: ${error}`)
+                failed.push(doc.url)
+            }
+        }
+
+        logger.info(`Backfilled canonical keys on ${updated} post(s)`)
+        return { updated, failed }
+    }
+
+    /**
+     * Add a monitor subscription, or update the interval, SureMark username
+     * and account of an existing one for the same target (its cursor is kept)
+     */
+    async addMonitorSubscription(
+        subscription: Pick<
+            MonitorSubscription,
+            "type" | "target" | "intervalMinutes" | "suremarkUsername" | "account"
+        >
+    ): Promise<MonitorSubscription> {
+        if (!this.monitorCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const doc = await this.monitorCollection.findOneAndUpdate(
+                { type: subscription.type, target: subscription.target },
+                {
+                    $set: {
+                        intervalMinutes: subscription.intervalMinutes,
+                        suremarkUsername: subscription.suremarkUsername,
+                        account: subscription.account,
+                        active: true,
+                    },
+                    $setOnInsert: { createdAt: new Date() },
+                },
+                { upsert: true, returnDocument: "after" }
+            )
+
+            logger.info(
+                `Saved monitor subscription: ${subscription.type} ${subscription.target}`
+            )
+            return this.toMonitorSubscription(doc)
+        } catch (error) {
+            logger.error(`Error saving monitor subscription: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Get monitor subscriptions, optionally only the active ones
+     */
+    async getMonitorSubscriptions(
+        activeOnly: boolean = false
+    ): Promise<MonitorSubscription[]> {
+        if (!this.monitorCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const documents = await this.monitorCollection
+                .find(activeOnly ? { active: true } : {})
+                .sort({ createdAt: 1 })
+                .toArray()
+
+            return documents.map((doc) => this.toMonitorSubscription(doc))
+        } catch (error) {
+            logger.error(`Error getting monitor subscriptions: ${error}`)
+            return []
+        }
+    }
+
+    /**
+     * Remove a monitor subscription by ID or by type and target
+     */
+    async removeMonitorSubscription(
+        selector: { id: string } | { type: string; target: string }
+    ): Promise<boolean> {
+        if (!this.monitorCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const filter =
+                "id" in selector
+                    ? { _id: new ObjectId(selector.id) }
+                    : { type: selector.type, target: selector.target }
+            const result = await this.monitorCollection.deleteOne(filter)
+            if (result.deletedCount > 0) {
+                logger.info(`Removed monitor subscription: ${JSON.stringify(selector)}`)
+                return true
+            }
+            return false
+        } catch (error) {
+            logger.error(`Error removing monitor subscription: ${error}`)
+            return false
+        }
+    }
+
+    /**
+     * Persist the since-id cursor and poll status of a monitor subscription
+     */
+    async updateMonitorState(
+        id: string,
+        state: Partial<
+            Pick<MonitorSubscription, "lastSeenId" | "lastPolledAt" | "lastError">
+        >
+    ): Promise<void> {
+        if (!this.monitorCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const update: Record<string, any> = {}
+            const unset: Record<string, ""> = {}
+
+            for (const [key, value] of Object.entries(state)) {
+                if (value === undefined) {
+                    unset[key] = ""
+                } else {
+                    update[key] = value
+                }
+            }
+
+            await this.monitorCollection.updateOne(
+                { _id: new ObjectId(id) },
+                {
+                    ...(Object.keys(update).length > 0 ? { $set: update } : {}),
+                    ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+                }
+            )
+        } catch (error) {
+            logger.error(`Error updating monitor state: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Map a monitor subscription document onto its interface
+     */
+    private toMonitorSubscription(doc: any): MonitorSubscription {
+        return {
+            _id: doc._id?.toString(),
+            type: doc.type,
+            target: doc.target,
+            suremarkUsername: doc.suremarkUsername ?? undefined,
+            account: doc.account ?? undefined,
+            intervalMinutes: doc.intervalMinutes,
+            active: doc.active,
+            createdAt: doc.createdAt,
+            lastSeenId: doc.lastSeenId ?? undefined,
+            lastPolledAt: doc.lastPolledAt ?? undefined,
+            lastError: doc.lastError ?? undefined,
+        }
+    }
+
+    /**
+     * Enqueue verification jobs, returning their IDs
+     */
+    async enqueueJobs(
+        jobs: Array<{
+            url: string
+            runAt: Date
+            options: VerificationJobOptions
+            maxAttempts: number
+        }>
+    ): Promise<string[]> {
+        if (!this.jobsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const now = new Date()
+            const result = await this.jobsCollection.insertMany(
+                jobs.map((job) => ({
+                    url: job.url,
+                    status: "pending",
+                    runAt: job.runAt,
+                    options: job.options,
+                    attempts: 0,
+                    maxAttempts: job.maxAttempts,
+                    createdAt: now,
+                    updatedAt: now,
+                }))
+            )
+
+            logger.info(`Enqueued ${result.insertedCount} jobs`)
+            return Object.values(result.insertedIds).map((id) => id.toString())
+        } catch (error) {
+            logger.error(`Error enqueuing jobs: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Atomically claim the next due job for a worker. Running jobs whose lock
+     * is older than lockTimeoutMs are treated as abandoned and reclaimed.
+     */
+    async claimNextJob(
+        workerId: string,
+        lockTimeoutMs: number
+    ): Promise<VerificationJob | null> {
+        if (!this.jobsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const now = new Date()
+            const doc = await this.jobsCollection.findOneAndUpdate(
+                {
+                    $or: [
+                        { status: "pending", runAt: { $lte: now } },
+                        {
+                            status: "running",
+                            lockedAt: {
+                                $lt: new Date(now.getTime() - lockTimeoutMs),
+                            },
+                        },
+                    ],
+                },
+                {
+                    $set: {
+                        status: "running",
+                        lockedBy: workerId,
+                        lockedAt: now,
+                        updatedAt: now,
+                    },
+                    $inc: { attempts: 1 },
+                },
+                { sort: { runAt: 1 }, returnDocument: "after" }
+            )
+
+            return doc ? this.toVerificationJob(doc) : null
+        } catch (error) {
+            logger.error(`Error claiming job: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Renew a running job's lock so it is not reclaimed as abandoned
+     * Returns false when the worker no longer holds the lock
+     */
+    async renewJobLock(id: string, workerId: string): Promise<boolean> {
+        if (!this.jobsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const now = new Date()
+            const update = await this.jobsCollection.updateOne(
+                { _id: new ObjectId(id), status: "running", lockedBy: workerId },
+                { $set: { lockedAt: now, updatedAt: now } }
+            )
+            return update.matchedCount > 0
+        } catch (error) {
+            logger.error(`Error renewing job lock: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Mark a claimed job as done
+     * Returns false (and changes nothing) when the worker no longer holds
+     * the job's lock
+     */
+    async completeJob(
+        id: string,
+        workerId: string,
+        result: NonNullable<VerificationJob["result"]>
+    ): Promise<boolean> {
+        if (!this.jobsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const update = await this.jobsCollection.updateOne(
+                { _id: new ObjectId(id), lockedBy: workerId },
+                {
+                    $set: { status: "done", result, updatedAt: new Date() },
+                    $unset: { lockedBy: "", lockedAt: "", partialThreadIds: "" },
+                }
+            )
+            return update.matchedCount > 0
+        } catch (error) {
+            logger.error(`Error completing job: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Record a failed attempt: the job goes back to pending at retryAt, or is
+     * marked failed when retryAt is not given, along with the tweets of a
+     * failed thread that are still posted
+     * Returns false (and changes nothing) when the worker no longer holds
+     * the job's lock
+     */
+    async failJob(
+        id: string,
+        workerId: string,
+        error: string,
+        retryAt?: Date,
+        partialThreadIds?: string[]
+    ): Promise<boolean> {
+        if (!this.jobsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const update = await this.jobsCollection.updateOne(
+                { _id: new ObjectId(id), lockedBy: workerId },
+                {
+                    $set: {
+                        status: retryAt ? "pending" : "failed",
+                        lastError: error,
+                        updatedAt: new Date(),
+                        ...(retryAt ? { runAt: retryAt } : {}),
+                        ...(partialThreadIds ? { partialThreadIds } : {}),
+                    },
+                    $unset: {
+                        lockedBy: "",
+                        lockedAt: "",
+                        ...(partialThreadIds ? {} : { partialThreadIds: "" }),
+                    },
+                }
+            )
+            return update.matchedCount > 0
+        } catch (error) {
+            logger.error(`Error failing job: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Get jobs, optionally filtered by status, soonest first
+     */
+    async getJobs(
+        status?: JobStatus,
+        limit: number = 50
+    ): Promise<VerificationJob[]> {
+        if (!this.jobsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const documents = await this.jobsCollection
+                .find(status ? { status } : {})
+                .sort({ runAt: 1 })
+                .limit(limit)
+                .toArray()
+
+            return documents.map((doc) => this.toVerificationJob(doc))
+        } catch (error) {
+            logger.error(`Error getting jobs: ${error}`)
+            return []
+        }
+    }
+
+    /**
+     * Map a job document onto its interface
+     */
+    private toVerificationJob(doc: any): VerificationJob {
+        return {
+            _id: doc._id?.toString(),
+            url: doc.url,
+            status: doc.status,
+            runAt: doc.runAt,
+            options: doc.options || {},
+            attempts: doc.attempts,
+            maxAttempts: doc.maxAttempts,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt,
+            lockedBy: doc.lockedBy ?? undefined,
+            lockedAt: doc.lockedAt ?? undefined,
+            lastError: doc.lastError ?? undefined,
+            partialThreadIds: doc.partialThreadIds ?? undefined,
+            result: doc.result ?? undefined,
+        }
+    }
+
+    /**
+     * Create a batch run manifest, returning its ID
+     */
+    async createBatchRun(
+        run: Pick<BatchRun, "file" | "format" | "fileHash" | "options" | "items">
+    ): Promise<string> {
+        if (!this.batchRunsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const now = new Date()
+            const result = await this.batchRunsCollection.insertOne({
+                ...run,
+                status: "running",
+                createdAt: now,
+                updatedAt: now,
+            })
+
+            logger.info(`Created batch run ${result.insertedId} for ${run.file}`)
+            return result.insertedId.toString()
+        } catch (error) {
+            logger.error(`Error creating batch run: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Get a batch run with its per-URL items
+     */
+    async getBatchRun(id: string): Promise<BatchRun | null> {
+        if (!this.batchRunsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const doc = await this.batchRunsCollection.findOne({
+                _id: new ObjectId(id),
+            })
+            return doc ? this.toBatchRun(doc) : null
+        } catch (error) {
+            logger.error(`Error getting batch run: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Get the most recent batch runs
+     */
+    async getBatchRuns(limit: number = 20): Promise<BatchRun[]> {
+        if (!this.batchRunsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const documents = await this.batchRunsCollection
+                .find({})
+                .sort({ createdAt: -1 })
+                .limit(limit)
+                .toArray()
+
+            return documents.map((doc) => this.toBatchRun(doc))
+        } catch (error) {
+            logger.error(`Error getting batch runs: ${error}`)
+            return []
+        }
+    }
+
+    /**
+     * Record the state of a single item of a batch run
+     */
+    async updateBatchRunItem(
+        id: string,
+        index: number,
+        item: BatchRunItem
+    ): Promise<void> {
+        if (!this.batchRunsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            await this.batchRunsCollection.updateOne(
+                { _id: new ObjectId(id) },
+                { $set: { [`items.${index}`]: item, updatedAt: new Date() } }
+            )
+        } catch (error) {
+            logger.error(`Error updating batch run item: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Set the overall status of a batch run
+     */
+    async updateBatchRunStatus(
+        id: string,
+        status: BatchRun["status"]
+    ): Promise<void> {
+        if (!this.batchRunsCollection) {
+            throw new Error("Database not initialized")
+        }
+
+        try {
+            const now = new Date()
+            await this.batchRunsCollection.updateOne(
+                { _id: new ObjectId(id) },
+                {
+                    $set: {
+                        status,
+                        updatedAt: now,
+                        ...(status === "completed" ? { finishedAt: now } : {}),
+                    },
+                }
+            )
+        } catch (error) {
+            logger.error(`Error updating batch run status: ${error}`)
+            throw error
+        }
+    }
+
+    /**
+     * Map a batch run document onto its interface
+     */
+    private toBatchRun(doc: any): BatchRun {
+        return {
+            _id: doc._id?.toString(),
+            file: doc.file,
+            format: doc.format ?? undefined,
+            fileHash: doc.fileHash,
+            options: doc.options,
+            status: doc.status,
+            items: doc.items || [],
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt,
+            finishedAt: doc.finishedAt ?? undefined,
+        }
+    }
+
     /**
      * Close database connection
      */
@@ -438,7 +1290,23 @@ export class PostDatabase {
             this.client = null
             this.db = null
             this.collection = null
+            this.monitorCollection = null
+            this.jobsCollection = null
+            this.batchRunsCollection = null
             logger.info("MongoDB connection closed")
         }
     }
 }
+
+/**
+ * Query matching the posts of an account (all posts without one); posts from
+ * before accounts were recorded count as the default account's
+ */
+function accountFilter(account?: string): Record<string, unknown> {
+    if (!account) {
+        return {}
+    }
+    return account === ACCOUNTS_CONFIG.DEFAULT_ACCOUNT
+        ? { account: { $in: [account, null] } }
+        : { account }
+}
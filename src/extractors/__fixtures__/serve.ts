@@ -0,0 +1,61 @@
+import fs from "fs"
+import path from "path"
+import { FetchError, FetchResponse, HttpFetcher } from "../../utils/http-fetcher"
+
+export interface FixtureRoute {
+    // Requested URL (without query parameters) or a pattern matching it
+    url: string | RegExp
+    // Fixture file answered with, relative to this directory
+    fixture?: string
+    // Non-2xx statuses are thrown as a FetchError, like the real fetcher
+    status?: number
+    // Final URL after redirects (defaults to the requested URL)
+    redirectTo?: string
+}
+
+/**
+ * Contents of a saved response
+ */
+export function readFixture(name: string): string {
+    return fs.readFileSync(path.join(__dirname, name), "utf8")
+}
+
+/**
+ * Answer the shared fetcher's requests from saved responses; requests no
+ * route matches fail as a network error
+ */
+export function serveFixtures(routes: FixtureRoute[]): jest.SpyInstance {
+    return jest
+        .spyOn(HttpFetcher.prototype, "fetch")
+        .mockImplementation(async (url: string): Promise<FetchResponse> => {
+            const route = routes.find((candidate) =>
+                typeof candidate.url === "string"
+                    ? candidate.url === url
+                    : candidate.url.test(url)
+            )
+            if (!route) {
+                throw new FetchError(`No fixture for ${url}`, "network", url)
+            }
+
+            const status = route.status ?? 200
+            if (status < 200 || status >= 300) {
+                throw new FetchError(
+                    `${url} responded with HTTP ${status}`,
+                    "status",
+                    url,
+                    status
+                )
+            }
+
+            const body = route.fixture ? readFixture(route.fixture) : ""
+            return {
+                url: route.redirectTo ?? url,
+                status,
+                contentType: route.fixture?.endsWith(".json")
+                    ? "application/json"
+                    : "text/html; charset=utf-8",
+                body,
+                fromCache: false,
+            }
+        })
+}
@@ -0,0 +1,95 @@
+import { CONTENT_CONFIG } from "../config"
+import { serveFixtures } from "./__fixtures__/serve"
+import { BlueskyExtractor } from "./bluesky"
+
+const POST_URL = "https://bsky.app/profile/factdesk.bsky.social/post/3kf5abcdxyz2a"
+const DID = "did:plc:z72i7hdynmk6r22z27h6tvur"
+const RESOLVE_URL = `${CONTENT_CONFIG.BLUESKY_API_URL}/com.atproto.identity.resolveHandle`
+const THREAD_URL = `${CONTENT_CONFIG.BLUESKY_API_URL}/app.bsky.feed.getPostThread`
+const TEXT =
+    "The storm photo circulating today is from 2017, reverse image search confirms. Thread below #verification cc @weather.bsky.social"
+
+describe("BlueskyExtractor", () => {
+    const extractor = new BlueskyExtractor()
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("extracts the post through the AppView API", async () => {
+        serveFixtures([
+            { url: RESOLVE_URL, fixture: "bluesky/resolve-handle.json" },
+            { url: THREAD_URL, fixture: "bluesky/post-thread.json" },
+        ])
+
+        const content = await extractor.extract(POST_URL, {})
+
+        expect(content.title).toBe(TEXT.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH))
+        expect(content.content).toBe(TEXT)
+        expect(content.author).toBe("factdesk.bsky.social")
+        expect(content.timestamp).toEqual(new Date("2023-11-15T14:05:09.123Z"))
+        expect(content.metadata?.hashtags).toEqual(["#verification"])
+        expect(content.metadata?.mentions).toEqual(["@weather.bsky.social"])
+        expect(content.metadata?.mediaUrls?.[0]).toMatch(/^https:\/\/cdn\.bsky\.app\/img\/feed_fullsize\//)
+        expect(content.metadata?.source).toBe("api")
+    })
+
+    it("requests the post by its resolved DID", async () => {
+        const fetch = serveFixtures([
+            { url: RESOLVE_URL, fixture: "bluesky/resolve-handle.json" },
+            { url: THREAD_URL, fixture: "bluesky/post-thread.json" },
+        ])
+
+        await extractor.extract(POST_URL, {})
+
+        expect(fetch).toHaveBeenCalledWith(
+            THREAD_URL,
+            expect.objectContaining({
+                params: expect.objectContaining({
+                    uri: `at://${DID}/app.bsky.feed.post/3kf5abcdxyz2a`,
+                }),
+            })
+        )
+    })
+
+    it("refuses deleted posts", async () => {
+        serveFixtures([
+            { url: RESOLVE_URL, fixture: "bluesky/resolve-handle.json" },
+            { url: THREAD_URL, fixture: "bluesky/not-found.json" },
+        ])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "not_found",
+            platform: "bluesky",
+        })
+    })
+
+    it("refuses posts blocked from public view", async () => {
+        serveFixtures([
+            { url: RESOLVE_URL, fixture: "bluesky/resolve-handle.json" },
+            { url: THREAD_URL, fixture: "bluesky/blocked.json" },
+        ])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "unavailable",
+        })
+    })
+
+    it("refuses posts from unknown handles (400)", async () => {
+        serveFixtures([{ url: RESOLVE_URL, status: 400 }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "not_found",
+        })
+    })
+
+    it("refuses posts from accounts that require a login (401)", async () => {
+        serveFixtures([
+            { url: RESOLVE_URL, fixture: "bluesky/resolve-handle.json" },
+            { url: THREAD_URL, status: 401 },
+        ])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "login_required",
+        })
+    })
+})
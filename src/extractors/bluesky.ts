@@ -0,0 +1,154 @@
+import {
+    CONTENT_CONFIG,
+    ExtractedContent,
+    MESSAGE_TEMPLATES,
+    PLATFORM_NAMES,
+} from "../config"
+import { buildContent, fetchJson } from "./html"
+import { checkReachable, SourceUnavailableError } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+const POST_PATH = /^\/profile\/([^/]+)\/post\/([^/]+)/
+
+/**
+ * Extracts Bluesky posts through the public AppView API
+ */
+export class BlueskyExtractor implements PlatformExtractor {
+    platform = "bluesky"
+    displayName = PLATFORM_NAMES.bluesky!
+    hosts = ["bsky.app"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.bluesky
+
+    /**
+     * Only /profile/<handle>/post/<id> URLs identify a post
+     */
+    isValidUrl(url: URL): boolean {
+        return POST_PATH.test(url.pathname)
+    }
+
+    /**
+     * Check that the account and post still exist and are not blocked
+     * (the API answers 400 for unknown handles and posts)
+     */
+    async checkLiveness(url: string): Promise<void> {
+        const [, actor, postId] = new URL(url).pathname.match(POST_PATH) || []
+        if (!actor || !postId) {
+            return
+        }
+
+        let did: string | undefined = actor
+        if (!actor.startsWith("did:")) {
+            const response = await checkReachable(
+                `${CONTENT_CONFIG.BLUESKY_API_URL}/com.atproto.identity.resolveHandle`,
+                this.platform,
+                {
+                    accept: "json",
+                    api: true,
+                    params: { handle: actor },
+                    goneStatuses: [400],
+                }
+            )
+            did = response ? JSON.parse(response.body)?.did : undefined
+            if (!did) {
+                return
+            }
+        }
+
+        const response = await checkReachable(
+            `${CONTENT_CONFIG.BLUESKY_API_URL}/app.bsky.feed.getPostThread`,
+            this.platform,
+            {
+                accept: "json",
+                api: true,
+                params: threadParams(did, postId),
+                goneStatuses: [400],
+            }
+        )
+        const type = response ? JSON.parse(response.body)?.thread?.$type : undefined
+        if (type === "app.bsky.feed.defs#notFoundPost") {
+            throw new SourceUnavailableError("Post not found", "not_found", this.platform)
+        }
+        if (type === "app.bsky.feed.defs#blockedPost") {
+            throw new SourceUnavailableError(
+                "Post is blocked from public view",
+                "unavailable",
+                this.platform
+            )
+        }
+    }
+
+    /**
+     * Extract content from Bluesky posts
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const match = new URL(url).pathname.match(POST_PATH)
+        if (!match) {
+            throw new Error("Could not extract post ID from URL")
+        }
+        const [, actor, postId] = match
+        const did = actor!.startsWith("did:")
+            ? actor!
+            : await this.resolveHandle(actor!)
+
+        const { data, rawHash } = await fetchJson(
+            `${CONTENT_CONFIG.BLUESKY_API_URL}/app.bsky.feed.getPostThread`,
+            threadParams(did, postId!),
+            context
+        )
+        const post = data?.thread?.post
+        if (!post?.record) {
+            throw new Error("Post not found in Bluesky response")
+        }
+
+        const text = String(post.record.text || "")
+        const facets: any[] = post.record.facets || []
+        const features = facets.flatMap((facet) => facet.features || [])
+        const embed = post.embed?.media || post.embed
+        const mediaUrls = [
+            ...(embed?.images || []).map((image: any) => image.fullsize),
+            embed?.thumbnail,
+            embed?.external?.thumb,
+        ].filter((mediaUrl): mediaUrl is string => typeof mediaUrl === "string")
+
+        return buildContent({
+            title: text || `Bluesky post by @${post.author?.handle}`,
+            content: text,
+            author: post.author?.handle,
+            createdAt: post.record.createdAt
+                ? new Date(post.record.createdAt)
+                : undefined,
+            hashtags: features
+                .filter((feature) => feature.$type === "app.bsky.richtext.facet#tag")
+                .map((feature) => `#${feature.tag}`),
+            mentions: text.match(/@[\w.-]+\.[a-z]+/gi) || [],
+            mediaUrls,
+            rawHash,
+            source: "api",
+        })
+    }
+
+    /**
+     * Look up the DID behind a handle
+     */
+    private async resolveHandle(handle: string): Promise<string> {
+        const { data } = await fetchJson(
+            `${CONTENT_CONFIG.BLUESKY_API_URL}/com.atproto.identity.resolveHandle`,
+            { handle }
+        )
+        if (!data?.did) {
+            throw new Error(`Could not resolve Bluesky handle ${handle}`)
+        }
+        return data.did
+    }
+}
+
+/**
+ * getPostThread parameters for a single post without replies or parents
+ */
+function threadParams(did: string, postId: string): Record<string, string> {
+    return {
+        uri: `at://${did}/app.bsky.feed.post/${postId}`,
+        depth: "0",
+        parentHeight: "0",
+    }
+}
@@ -0,0 +1,75 @@
+import { serveFixtures } from "./__fixtures__/serve"
+import { FacebookExtractor } from "./facebook"
+
+const POST_URL = "https://www.facebook.com/RiversideCouncil/posts/pfbid02AbCdEf"
+const TEXT =
+    "Flood update: the east bridge reopens Monday at 6am after inspection. Thanks to everyone who volunteered this weekend! #RiversideStrong"
+
+describe("FacebookExtractor", () => {
+    const extractor = new FacebookExtractor()
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("extracts the post text and page name from Open Graph tags", async () => {
+        serveFixtures([{ url: POST_URL, fixture: "facebook/post.html" }])
+
+        const content = await extractor.extract(POST_URL, {})
+
+        expect(content.title).toBe("Riverside Community Council")
+        expect(content.content).toBe(TEXT)
+        expect(content.author).toBe("Riverside Community Council")
+        // Logged-out post pages carry no publication date
+        expect(content.timestamp).toBeUndefined()
+        expect(content.metadata?.hashtags).toEqual(["#RiversideStrong"])
+        expect(content.metadata?.mediaUrls?.[0]).toMatch(/^https:\/\/scontent\.xx\.fbcdn\.net\//)
+        expect(content.metadata?.source).toBe("html")
+    })
+
+    it("fetches the live page when asked to bypass the cache", async () => {
+        const fetch = serveFixtures([{ url: POST_URL, fixture: "facebook/post.html" }])
+
+        await extractor.extract(POST_URL, {})
+        await extractor.extract(POST_URL, { cache: false })
+
+        expect(fetch.mock.calls[0]![1]).not.toHaveProperty("cache")
+        expect(fetch.mock.calls[1]![1]).toMatchObject({ cache: false })
+    })
+
+    it("refuses posts Facebook reports as unavailable", async () => {
+        serveFixtures([{ url: POST_URL, fixture: "facebook/unavailable.html" }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "not_found",
+            platform: "facebook",
+        })
+    })
+
+    it("refuses posts that redirect to the login wall", async () => {
+        serveFixtures([
+            {
+                url: POST_URL,
+                fixture: "facebook/unavailable.html",
+                redirectTo: "https://www.facebook.com/login/?next=https%3A%2F%2Fwww.facebook.com%2FRiversideCouncil",
+            },
+        ])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "login_required",
+        })
+    })
+
+    it("refuses deleted posts (404)", async () => {
+        serveFixtures([{ url: POST_URL, status: 404 }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "not_found",
+        })
+    })
+
+    it("passes live posts", async () => {
+        serveFixtures([{ url: POST_URL, fixture: "facebook/post.html" }])
+
+        await expect(extractor.checkLiveness(POST_URL)).resolves.toBeUndefined()
+    })
+})
@@ -0,0 +1,66 @@
+import { ExtractedContent, MESSAGE_TEMPLATES, PLATFORM_NAMES } from "../config"
+import { buildContent, extractHashtags, fetchDocument, metaContent } from "./html"
+import { checkReachable, UnavailableMarker } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+// Shown in place of deleted posts and posts limited to friends
+const UNAVAILABLE_MARKERS: UnavailableMarker[] = [
+    {
+        pattern: /This content isn(?:'|&#039;|&#x27;|’)t available/,
+        reason: "not_found",
+        message: "Facebook reports the content is not available",
+    },
+]
+
+/**
+ * Extracts Facebook posts and videos from the page's Open Graph tags
+ * (Facebook's oEmbed endpoint requires an app token)
+ */
+export class FacebookExtractor implements PlatformExtractor {
+    platform = "facebook"
+    displayName = PLATFORM_NAMES.facebook!
+    hosts = ["facebook.com", "fb.com", "fb.watch"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.facebook
+
+    /**
+     * Posts, videos, reels, photos and share links
+     */
+    isValidUrl(url: URL): boolean {
+        return (
+            url.hostname.endsWith("fb.watch") ||
+            /\/(posts|videos|reel|photos|share|permalink\.php|story\.php|watch)\b/.test(
+                url.pathname
+            ) ||
+            url.pathname === "/photo.php"
+        )
+    }
+
+    /**
+     * Check that the post page still resolves without the login wall
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(url, this.platform, { markers: UNAVAILABLE_MARKERS })
+    }
+
+    /**
+     * Extract content from Facebook posts
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { $, rawHash } = await fetchDocument(url, context)
+
+        const text = metaContent($, "og:description", "description") || ""
+        const heading = metaContent($, "og:title") || $("title").text()
+        const image = metaContent($, "og:image")
+
+        return buildContent({
+            title: heading || text,
+            content: text,
+            // Post pages title themselves with the page or person's name
+            author: heading && heading !== text ? heading : undefined,
+            hashtags: extractHashtags(text),
+            mediaUrls: image ? [image] : [],
+            rawHash,
+            source: "html",
+        })
+    }
+}
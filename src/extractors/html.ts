@@ -0,0 +1,145 @@
+import * as cheerio from "cheerio"
+import { CONTENT_CONFIG, ExtractedContent, PostMetadata } from "../config"
+import { contentHash, sha256 } from "../utils/fingerprint"
+import { getFetcher } from "../utils/http-fetcher"
+import { ExtractorContext } from "./types"
+
+/**
+ * Download a page (respecting robots.txt) and load it for querying, along
+ * with the SHA-256 of the raw response
+ */
+export async function fetchDocument(
+    url: string,
+    context: ExtractorContext = {}
+): Promise<{ $: cheerio.CheerioAPI; rawHash: string }> {
+    const response = await getFetcher().fetch(url, {
+        accept: "html",
+        ...(context.cache === false ? { cache: false } : {}),
+    })
+    return { $: cheerio.load(response.body), rawHash: sha256(response.body) }
+}
+
+/**
+ * Download a JSON document from a public API endpoint, along with the
+ * SHA-256 of the raw response
+ */
+export async function fetchJson(
+    url: string,
+    params?: Record<string, string>,
+    context: ExtractorContext = {}
+): Promise<{ data: any; rawHash: string }> {
+    const response = await getFetcher().fetch(url, {
+        accept: "json",
+        robots: false,
+        ...(params ? { params } : {}),
+        ...(context.cache === false ? { cache: false } : {}),
+    })
+    return { data: JSON.parse(response.body), rawHash: sha256(response.body) }
+}
+
+/**
+ * First non-empty <meta> value among the given property/name keys
+ */
+export function metaContent(
+    $: cheerio.CheerioAPI,
+    ...keys: string[]
+): string | undefined {
+    for (const key of keys) {
+        const value =
+            $(`meta[property="${key}"]`).attr("content") ||
+            $(`meta[name="${key}"]`).attr("content")
+        if (value?.trim()) {
+            return value.trim()
+        }
+    }
+    return undefined
+}
+
+/**
+ * Parsed JSON-LD objects on a page, with @graph entries flattened
+ */
+export function jsonLdObjects($: cheerio.CheerioAPI): any[] {
+    const objects: any[] = []
+    $('script[type="application/ld+json"]').each((_, element) => {
+        try {
+            const value = JSON.parse($(element).text())
+            for (const entry of [value].flat()) {
+                objects.push(entry, ...[entry?.["@graph"] || []].flat())
+            }
+        } catch {
+            // Ignore malformed blocks
+        }
+    })
+    return objects.filter((entry) => entry && typeof entry === "object")
+}
+
+/**
+ * Hashtags in post text, with their # prefix
+ */
+export function extractHashtags(text: string): string[] {
+    return [...new Set(text.match(/#[\p{L}\p{N}_]+/gu) || [])]
+}
+
+/**
+ * Build extracted content from a post's fields, truncating the title and
+ * content to the configured lengths (their fingerprint hashes cover the
+ * full text)
+ */
+export function buildContent(details: {
+    title?: string | undefined
+    content?: string | undefined
+    author?: string | undefined
+    createdAt?: Date | undefined
+    hashtags?: string[] | undefined
+    mentions?: string[] | undefined
+    mediaUrls?: string[] | undefined
+    canonicalUrl?: string | undefined
+    siteName?: string | undefined
+    rawHash?: string | undefined
+    source: string
+}): ExtractedContent {
+    const metadata: PostMetadata = { source: details.source }
+    if (details.canonicalUrl) {
+        metadata.canonicalUrl = details.canonicalUrl
+    }
+    if (details.siteName) {
+        metadata.siteName = details.siteName
+    }
+    if (details.hashtags?.length) {
+        metadata.hashtags = details.hashtags
+    }
+    if (details.mentions?.length) {
+        metadata.mentions = details.mentions
+    }
+    if (details.mediaUrls?.length) {
+        metadata.mediaUrls = details.mediaUrls
+    }
+
+    const createdAt =
+        details.createdAt && !isNaN(details.createdAt.getTime())
+            ? details.createdAt
+            : undefined
+    const result: ExtractedContent = { metadata }
+    if (details.rawHash) {
+        result.rawHash = details.rawHash
+    }
+    if (createdAt) {
+        metadata.createdAt = createdAt
+        result.timestamp = createdAt
+    }
+    const title = details.title?.trim()
+    if (title) {
+        result.title = title.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH)
+        result.titleHash = contentHash(title)
+    }
+    const content = details.content?.trim()
+    if (content) {
+        result.content = content.substring(0, CONTENT_CONFIG.MAX_CONTENT_LENGTH)
+        result.contentHash = contentHash(content)
+    }
+    if (details.author?.trim()) {
+        result.author = details.author.trim()
+    }
+
+    return result
+}
@@ -0,0 +1,87 @@
+import {
+    CONTENT_CONFIG,
+    ExtractedContent,
+    MESSAGE_TEMPLATES,
+    PLATFORM_NAMES,
+} from "../config"
+import { contentHash } from "../utils/fingerprint"
+import { fetchDocument } from "./html"
+import { checkReachable, UnavailableMarker } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+// Shown in place of deleted posts and posts on private accounts
+const UNAVAILABLE_MARKERS: UnavailableMarker[] = [
+    {
+        pattern: /Sorry, this page isn(?:'|&#039;|&#x27;|’)t available/,
+        reason: "not_found",
+        message: "Instagram reports the page is not available",
+    },
+    {
+        pattern: /This (?:A|a)ccount is (?:P|p)rivate/,
+        reason: "private",
+        message: "The Instagram account is private",
+    },
+]
+
+/**
+ * Extracts Instagram posts from the page's Open Graph tags
+ */
+export class InstagramExtractor implements PlatformExtractor {
+    platform = "instagram"
+    displayName = PLATFORM_NAMES.instagram!
+    hosts = ["instagram.com"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.instagram
+
+    /**
+     * Check that the post page still resolves without the login wall
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(url, this.platform, { markers: UNAVAILABLE_MARKERS })
+    }
+
+    /**
+     * Extract content from Instagram posts
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { $, rawHash } = await fetchDocument(url, context)
+
+        // Extract Instagram post content
+        const content =
+            $('meta[property="og:description"]').attr("content") ||
+            $(".caption").text() ||
+            $('[data-testid="post-caption"]').text()
+
+        // Extract author
+        const author =
+            $('meta[property="og:title"]')
+                .attr("content")
+                ?.split(" on Instagram")[0] || $(".username").text()
+
+        // Post image for the tweet's media attachment
+        const image = $('meta[property="og:image"]').attr("content")
+
+        const result: ExtractedContent = { rawHash }
+
+        if (image) {
+            result.metadata = { mediaUrls: [image] }
+        }
+
+        if (author) {
+            result.title = `Instagram Post by ${author}`
+        }
+
+        if (content) {
+            result.content = content.substring(
+                0,
+                CONTENT_CONFIG.MAX_CONTENT_LENGTH
+            )
+            result.contentHash = contentHash(content)
+        }
+
+        if (author) {
+            result.author = author
+        }
+
+        return result
+    }
+}
@@ -0,0 +1,60 @@
+import { serveFixtures } from "./__fixtures__/serve"
+import { LinkedInExtractor } from "./linkedin"
+
+const POST_URL =
+    "https://www.linkedin.com/posts/priya-raman_dataliteracy-journalism-activity-7130000000000000000-AbCd"
+const TEXT =
+    "Our audit of 1,200 reposted charts found that 41% had lost their source attribution. Full methodology in the comments. #dataliteracy #journalism"
+
+describe("LinkedInExtractor", () => {
+    const extractor = new LinkedInExtractor()
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("extracts the post from its JSON-LD", async () => {
+        serveFixtures([{ url: POST_URL, fixture: "linkedin/post.html" }])
+
+        const content = await extractor.extract(POST_URL, {})
+
+        expect(content.title).toBe(
+            "Our audit of 1,200 reposted charts found that 41% had lost their source attribution."
+        )
+        expect(content.content).toBe(TEXT)
+        expect(content.author).toBe("Priya Raman")
+        expect(content.timestamp).toEqual(new Date("2023-11-14T09:30:12.000Z"))
+        expect(content.metadata?.hashtags).toEqual(["#dataliteracy", "#journalism"])
+        expect(content.metadata?.mediaUrls?.[0]).toMatch(/^https:\/\/media\.licdn\.com\//)
+        expect(content.metadata?.source).toBe("json-ld")
+    })
+
+    it("refuses posts that redirect to the sign-in wall", async () => {
+        serveFixtures([
+            {
+                url: POST_URL,
+                fixture: "linkedin/authwall.html",
+                redirectTo:
+                    "https://www.linkedin.com/authwall?trk=gf&trkInfo=AQE&original_referer=&sessionRedirect=https%3A%2F%2Fwww.linkedin.com%2Fposts%2F",
+            },
+        ])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "login_required",
+            platform: "linkedin",
+        })
+    })
+
+    it("refuses deleted posts (404)", async () => {
+        serveFixtures([{ url: POST_URL, status: 404 }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "not_found",
+        })
+    })
+
+    it("treats bot protection (999/403) as inconclusive", async () => {
+        serveFixtures([{ url: POST_URL, status: 403 }])
+
+        await expect(extractor.checkLiveness(POST_URL)).resolves.toBeUndefined()
+    })
+})
@@ -0,0 +1,74 @@
+import { ExtractedContent, MESSAGE_TEMPLATES, PLATFORM_NAMES } from "../config"
+import {
+    buildContent,
+    extractHashtags,
+    fetchDocument,
+    jsonLdObjects,
+    metaContent,
+} from "./html"
+import { checkReachable } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+// JSON-LD types LinkedIn uses for posts and articles
+const POST_TYPES = ["SocialMediaPosting", "DiscussionForumPosting", "Article"]
+
+/**
+ * Extracts LinkedIn posts and articles from the page's JSON-LD, falling back
+ * to its Open Graph tags
+ */
+export class LinkedInExtractor implements PlatformExtractor {
+    platform = "linkedin"
+    displayName = PLATFORM_NAMES.linkedin!
+    hosts = ["linkedin.com"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.linkedin
+
+    /**
+     * Posts, feed updates and Pulse articles
+     */
+    isValidUrl(url: URL): boolean {
+        return /^\/(posts|feed\/update|pulse)\//.test(url.pathname)
+    }
+
+    /**
+     * Check that the post page still resolves without the sign-in wall
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(url, this.platform)
+    }
+
+    /**
+     * Extract content from LinkedIn posts
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { $, rawHash } = await fetchDocument(url, context)
+
+        const posting = jsonLdObjects($).find((entry) =>
+            [entry["@type"]].flat().some((type) => POST_TYPES.includes(type))
+        )
+        // og:title reads "Name on LinkedIn: post text"
+        const heading = metaContent($, "og:title") || $("title").text()
+        const text =
+            posting?.articleBody ||
+            posting?.text ||
+            metaContent($, "og:description", "description") ||
+            ""
+        const author =
+            [posting?.author].flat()[0]?.name ||
+            heading.split(/ on LinkedIn/)[0] ||
+            undefined
+        const image = metaContent($, "og:image")
+
+        return buildContent({
+            title: posting?.headline || text || heading,
+            content: text,
+            author,
+            createdAt: posting?.datePublished
+                ? new Date(posting.datePublished)
+                : undefined,
+            hashtags: extractHashtags(text),
+            mediaUrls: image ? [image] : [],
+            rawHash,
+            source: posting ? "json-ld" : "html",
+        })
+    }
+}
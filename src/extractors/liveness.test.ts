@@ -0,0 +1,62 @@
+import fs from "fs"
+import http from "http"
+import { AddressInfo } from "net"
+import os from "os"
+import path from "path"
+import { configureFetcher, HttpFetcher } from "../utils/http-fetcher"
+import { checkReachable } from "./liveness"
+
+describe("checkReachable", () => {
+    let server: http.Server
+    let status = 200
+    let url = ""
+    let cacheDir = ""
+    let fetcher: HttpFetcher
+
+    beforeEach(async () => {
+        status = 200
+        cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "liveness-cache-"))
+        server = http.createServer((_, response) => {
+            response.writeHead(status, { "Content-Type": "text/html" })
+            response.end("<html><body><p>Flood update</p></body></html>")
+        })
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/posts/1`
+
+        fetcher = configureFetcher({
+            allowPrivateNetworks: true,
+            respectRobots: false,
+            proxy: "",
+            maxRetries: 0,
+            cacheDir,
+            cacheTtlMs: 3600 * 1000,
+        })
+    })
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve))
+        fs.rmSync(cacheDir, { recursive: true, force: true })
+        configureFetcher({})
+    })
+
+    it("sees a deletion even while the page is cached", async () => {
+        // Extraction cached the live page...
+        await fetcher.fetch(url, { accept: "html" })
+
+        // ...then the post was deleted
+        status = 404
+        expect((await fetcher.fetch(url, { accept: "html" })).fromCache).toBe(true)
+
+        await expect(checkReachable(url, "website")).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "not_found",
+        })
+    })
+
+    it("passes a live page", async () => {
+        const response = await checkReachable(url, "website")
+
+        expect(response?.status).toBe(200)
+        expect(response?.fromCache).toBe(false)
+    })
+})
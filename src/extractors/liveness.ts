@@ -0,0 +1,112 @@
+import { UnavailableReason } from "../config"
+import { logger } from "../utils/logger"
+import {
+    FetchAccept,
+    FetchError,
+    FetchResponse,
+    getFetcher,
+} from "../utils/http-fetcher"
+
+/**
+ * Raised by a liveness check when the source post is gone, private or
+ * behind a login wall
+ */
+export class SourceUnavailableError extends Error {
+    constructor(
+        message: string,
+        public reason: UnavailableReason,
+        public platform: string
+    ) {
+        super(message)
+        this.name = "SourceUnavailableError"
+    }
+}
+
+/**
+ * Text on a fetched page that means the post is not available
+ */
+export interface UnavailableMarker {
+    pattern: RegExp
+    reason: UnavailableReason
+    message: string
+}
+
+export interface ReachabilityOptions {
+    accept?: FetchAccept
+    params?: Record<string, string>
+    // Public API endpoint: skip the robots.txt check
+    api?: boolean
+    // Statuses besides 404, 410 and 451 that mean the post is gone
+    // (APIs answering 400 for unknown IDs)
+    goneStatuses?: number[]
+    markers?: UnavailableMarker[]
+}
+
+// Where platforms send logged-out visitors instead of the post
+const LOGIN_WALL = /\/(accounts\/login|login(\.php)?|authwall|signin|checkpoint)([/?#]|$)/i
+
+const STATUS_REASONS: Record<number, UnavailableReason> = {
+    401: "login_required",
+    404: "not_found",
+    410: "removed",
+    451: "unavailable",
+}
+
+/**
+ * Fetch a source page (or API endpoint) and throw a SourceUnavailableError
+ * when its status, a redirect to a login page or one of the markers shows
+ * the post is not available. Returns null when the fetch failed for reasons
+ * that say nothing about the post (timeouts, robots.txt, rate limits and
+ * 403s, which bot protection also answers); extraction reports those.
+ */
+export async function checkReachable(
+    url: string,
+    platform: string,
+    options: ReachabilityOptions = {}
+): Promise<FetchResponse | null> {
+    let response: FetchResponse
+    try {
+        // Always the live page: a cached copy would pass a post deleted
+        // since it was fetched
+        response = await getFetcher().fetch(url, {
+            accept: options.accept ?? "html",
+            cache: false,
+            ...(options.api ? { robots: false } : {}),
+            ...(options.params ? { params: options.params } : {}),
+        })
+    } catch (error: any) {
+        const reason =
+            error instanceof FetchError && error.status
+                ? options.goneStatuses?.includes(error.status)
+                    ? "not_found"
+                    : STATUS_REASONS[error.status]
+                : undefined
+        if (reason) {
+            throw new SourceUnavailableError(
+                `Source returned HTTP ${error.status}`,
+                reason,
+                platform
+            )
+        }
+
+        logger.warn(`Liveness check inconclusive for ${url}: ${error.message}`)
+        return null
+    }
+
+    if (response.url !== url && LOGIN_WALL.test(new URL(response.url).pathname)) {
+        throw new SourceUnavailableError(
+            `Redirected to a login page (${response.url})`,
+            "login_required",
+            platform
+        )
+    }
+
+    const marker = options.markers?.find(({ pattern }) =>
+        pattern.test(response.body)
+    )
+    if (marker) {
+        throw new SourceUnavailableError(marker.message, marker.reason, platform)
+    }
+
+    return response
+}
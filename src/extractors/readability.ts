@@ -0,0 +1,106 @@
+import * as cheerio from "cheerio"
+import type { AnyNode, Element } from "domhandler"
+
+// Elements that never hold the article body
+const NOISE_SELECTORS =
+    "script, style, noscript, template, svg, nav, header, footer, aside, form, iframe, button"
+
+// Class/id hints, as in Mozilla's Readability
+const POSITIVE_HINTS =
+    /article|body|content|entry|main|page|post|story|text|blog/i
+const NEGATIVE_HINTS =
+    /comment|meta|footer|footnote|sidebar|widget|share|social|related|promo|sponsor|banner|advert|\bads?\b|nav|menu|subscribe|newsletter|cookie|popup|modal/i
+
+// Paragraphs shorter than this are ignored when scoring
+const MIN_PARAGRAPH_LENGTH = 25
+
+/**
+ * Readability-style main text extraction: paragraphs score their parent and
+ * grandparent by length and commas, scores are adjusted by class/id hints
+ * and link density, and the paragraphs of the best container are returned
+ */
+export function extractReadableText(
+    page: cheerio.CheerioAPI
+): string | undefined {
+    // Work on a copy so the caller's document keeps its noise elements
+    const $ = cheerio.load(page.html())
+    $(NOISE_SELECTORS).remove()
+
+    const scores = new Map<Element, number>()
+    const addScore = (element: AnyNode | null | undefined, score: number) => {
+        if (!element || element.type !== "tag") return
+        if (!scores.has(element)) {
+            scores.set(element, classWeight($(element)))
+        }
+        scores.set(element, scores.get(element)! + score)
+    }
+
+    $("p, pre, td").each((_, paragraph) => {
+        const text = normalizeText($(paragraph).text())
+        if (text.length < MIN_PARAGRAPH_LENGTH) return
+
+        const score =
+            1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3)
+        addScore(paragraph.parent, score)
+        addScore(paragraph.parent?.parent, score / 2)
+    })
+
+    let best: Element | null = null
+    let bestScore = 0
+    for (const [element, score] of scores) {
+        const adjusted = score * (1 - linkDensity($(element)))
+        if (adjusted > bestScore) {
+            best = element
+            bestScore = adjusted
+        }
+    }
+
+    if (!best) {
+        return undefined
+    }
+
+    const paragraphs = $(best)
+        .find("p, pre, li, blockquote, h2, h3")
+        .toArray()
+        .map((element) => normalizeText($(element).text()))
+        .filter((text) => text.length >= MIN_PARAGRAPH_LENGTH)
+
+    const text = (
+        paragraphs.length > 0
+            ? [...new Set(paragraphs)].join("\n\n")
+            : normalizeText($(best).text())
+    ).trim()
+
+    return text || undefined
+}
+
+/**
+ * Score bonus or penalty from an element's class and id
+ */
+function classWeight(element: cheerio.Cheerio<Element>): number {
+    let weight = 0
+    const tag = String(element.prop("tagName") || "").toLowerCase()
+    if (tag === "article" || tag === "main") weight += 25
+
+    for (const value of [element.attr("class"), element.attr("id")]) {
+        if (!value) continue
+        if (NEGATIVE_HINTS.test(value)) weight -= 25
+        if (POSITIVE_HINTS.test(value)) weight += 25
+    }
+    return weight
+}
+
+/**
+ * Share of an element's text that sits inside links
+ */
+function linkDensity(element: cheerio.Cheerio<Element>): number {
+    const length = normalizeText(element.text()).length
+    if (length === 0) return 1
+
+    const linkLength = normalizeText(element.find("a").text()).length
+    return Math.min(linkLength / length, 1)
+}
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, " ").trim()
+}
@@ -0,0 +1,76 @@
+import { serveFixtures } from "./__fixtures__/serve"
+import { RedditExtractor } from "./reddit"
+
+const POST_URL =
+    "https://www.reddit.com/r/dataisbeautiful/comments/17xyz9a/oc_where_the_viral_housing_chart_actually_comes/"
+const JSON_URL =
+    "https://www.reddit.com/r/dataisbeautiful/comments/17xyz9a/oc_where_the_viral_housing_chart_actually_comes.json"
+
+describe("RedditExtractor", () => {
+    const extractor = new RedditExtractor()
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("extracts the post from its JSON view", async () => {
+        serveFixtures([{ url: JSON_URL, fixture: "reddit/post.json" }])
+
+        const content = await extractor.extract(POST_URL, {})
+
+        expect(content.title).toBe("[OC] Where the viral housing chart actually comes from")
+        expect(content.content).toMatch(/^I traced the chart that has been going around/)
+        expect(content.author).toBe("chart_sleuth")
+        expect(content.timestamp).toEqual(new Date(1700050000 * 1000))
+        expect(content.metadata?.mentions).toEqual(["r/dataisbeautiful"])
+        expect(content.metadata?.mediaUrls).toEqual([
+            "https://preview.redd.it/abc123def456.png?auto=webp&s=0123456789abcdef",
+            "https://i.redd.it/abc123def456.png",
+        ])
+        expect(content.metadata?.source).toBe("json")
+    })
+
+    it("reads redd.it short links through the comments endpoint", async () => {
+        const fetch = serveFixtures([
+            { url: "https://www.reddit.com/comments/17xyz9a.json", fixture: "reddit/post.json" },
+        ])
+
+        const content = await extractor.extract("https://redd.it/17xyz9a", {})
+
+        expect(content.author).toBe("chart_sleuth")
+        expect(fetch).toHaveBeenCalledWith(
+            "https://www.reddit.com/comments/17xyz9a.json",
+            expect.objectContaining({ params: { raw_json: "1" } })
+        )
+    })
+
+    it("refuses posts removed by moderators", async () => {
+        serveFixtures([{ url: JSON_URL, fixture: "reddit/removed.json" }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "removed",
+            platform: "reddit",
+        })
+    })
+
+    it("refuses posts deleted by their author", async () => {
+        serveFixtures([{ url: JSON_URL, fixture: "reddit/deleted.json" }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "not_found",
+        })
+    })
+
+    it("refuses posts that require a login", async () => {
+        serveFixtures([{ url: JSON_URL, status: 401 }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "login_required",
+        })
+    })
+
+    it("passes live posts", async () => {
+        serveFixtures([{ url: JSON_URL, fixture: "reddit/post.json" }])
+
+        await expect(extractor.checkLiveness(POST_URL)).resolves.toBeUndefined()
+    })
+})
@@ -0,0 +1,110 @@
+import { ExtractedContent, MESSAGE_TEMPLATES, PLATFORM_NAMES } from "../config"
+import { buildContent, extractHashtags, fetchJson } from "./html"
+import { checkReachable, SourceUnavailableError } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+/**
+ * Extracts Reddit posts through the public JSON view of a post
+ * (the post URL with .json appended)
+ */
+export class RedditExtractor implements PlatformExtractor {
+    platform = "reddit"
+    displayName = PLATFORM_NAMES.reddit!
+    hosts = ["reddit.com", "redd.it"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.reddit
+
+    /**
+     * Post permalinks and redd.it short links
+     */
+    isValidUrl(url: URL): boolean {
+        return (
+            url.hostname.endsWith("redd.it") ||
+            /\/comments\/\w+/.test(url.pathname)
+        )
+    }
+
+    /**
+     * Check that the post exists and was not removed or deleted
+     */
+    async checkLiveness(url: string): Promise<void> {
+        const response = await checkReachable(redditJsonUrl(url), this.platform, {
+            accept: "json",
+            api: true,
+            params: { raw_json: "1" },
+        })
+        const post = response
+            ? [JSON.parse(response.body)].flat()[0]?.data?.children?.[0]?.data
+            : undefined
+        if (!post) {
+            return
+        }
+
+        if (post.removed_by_category) {
+            throw new SourceUnavailableError(
+                `Post removed (${post.removed_by_category})`,
+                post.removed_by_category === "deleted" ? "not_found" : "removed",
+                this.platform
+            )
+        }
+        if (post.author === "[deleted]" && post.selftext === "[deleted]") {
+            throw new SourceUnavailableError(
+                "Post deleted by its author",
+                "not_found",
+                this.platform
+            )
+        }
+    }
+
+    /**
+     * Extract content from Reddit posts
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { data, rawHash } = await fetchJson(
+            redditJsonUrl(url),
+            { raw_json: "1" },
+            context
+        )
+        const post = [data].flat()[0]?.data?.children?.[0]?.data
+        if (!post?.title) {
+            throw new Error("Post not found in Reddit response")
+        }
+
+        const previewUrl = post.preview?.images?.[0]?.source?.url
+        const linkedUrl = post.url_overridden_by_dest
+        const mediaUrls = [previewUrl, post.is_video ? undefined : linkedUrl]
+            .filter((mediaUrl): mediaUrl is string =>
+                typeof mediaUrl === "string" &&
+                /\.(jpe?g|png|gif|webp)(\?|$)/i.test(mediaUrl)
+            )
+
+        return buildContent({
+            title: post.title,
+            content: post.selftext || post.title,
+            author: post.author,
+            createdAt: post.created_utc
+                ? new Date(post.created_utc * 1000)
+                : undefined,
+            hashtags: extractHashtags(`${post.title} ${post.selftext || ""}`),
+            mentions: post.subreddit_name_prefixed
+                ? [post.subreddit_name_prefixed]
+                : [],
+            mediaUrls: [...new Set(mediaUrls)],
+            rawHash,
+            source: "json",
+        })
+    }
+}
+
+/**
+ * JSON view of a Reddit post URL
+ */
+function redditJsonUrl(url: string): string {
+    const parsed = new URL(url)
+    if (parsed.hostname.endsWith("redd.it")) {
+        const postId = parsed.pathname.split("/").filter(Boolean)[0]
+        return `https://www.reddit.com/comments/${postId}.json`
+    }
+
+    const path = parsed.pathname.replace(/\/+$/, "")
+    return `https://www.reddit.com${path}.json`
+}
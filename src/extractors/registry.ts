@@ -0,0 +1,178 @@
+import path from "path"
+import { EXTRACTOR_CONFIG, PLATFORM_NAMES } from "../config"
+import { logger } from "../utils/logger"
+import { BlueskyExtractor } from "./bluesky"
+import { FacebookExtractor } from "./facebook"
+import { InstagramExtractor } from "./instagram"
+import { LinkedInExtractor } from "./linkedin"
+import { RedditExtractor } from "./reddit"
+import { ThreadsExtractor } from "./threads"
+import { TikTokExtractor } from "./tiktok"
+import { PlatformExtractor } from "./types"
+import { TwitterExtractor } from "./twitter"
+import { WebsiteExtractor } from "./website"
+import { YouTubeExtractor } from "./youtube"
+
+/**
+ * Platform extractors by platform key. URLs are routed to the extractor
+ * whose hosts match exactly or as a parent domain; anything else goes to
+ * the website fallback.
+ */
+export class ExtractorRegistry {
+    private extractors = new Map<string, PlatformExtractor>()
+    private fallback: PlatformExtractor = new WebsiteExtractor()
+
+    /**
+     * Create a registry with the built-in extractors and configured modules
+     */
+    static load(modules: string[] = EXTRACTOR_CONFIG.MODULES): ExtractorRegistry {
+        const registry = new ExtractorRegistry()
+        registry.registerBuiltIns()
+        for (const module of modules) {
+            registry.loadModule(module)
+        }
+        return registry
+    }
+
+    /**
+     * Register the extractors shipped with the bot
+     */
+    registerBuiltIns(): void {
+        this.register(new TwitterExtractor())
+        this.register(new InstagramExtractor())
+        this.register(new YouTubeExtractor())
+        this.register(new TikTokExtractor())
+        this.register(new FacebookExtractor())
+        this.register(new LinkedInExtractor())
+        this.register(new RedditExtractor())
+        this.register(new ThreadsExtractor())
+        this.register(new BlueskyExtractor())
+        this.register(this.fallback)
+    }
+
+    /**
+     * Load extractors from a module path or package name. The module may
+     * export an extractor or a list of them as default, `extractor` or
+     * `extractors`; classes are instantiated.
+     */
+    loadModule(specifier: string): void {
+        const resolved =
+            specifier.startsWith(".") || path.isAbsolute(specifier)
+                ? path.resolve(specifier)
+                : specifier
+
+        let exported: any
+        try {
+            exported = require(resolved)
+        } catch (error: any) {
+            throw new Error(
+                `Failed to load extractor module ${specifier}: ${error.message}`
+            )
+        }
+
+        const candidates = [
+            exported?.default,
+            exported?.extractor,
+            exported?.extractors,
+        ]
+            .flat()
+            .filter(Boolean)
+        if (candidates.length === 0) {
+            throw new Error(`Extractor module ${specifier} exports no extractors`)
+        }
+
+        for (const candidate of candidates) {
+            const extractor =
+                typeof candidate === "function" ? new candidate() : candidate
+            this.register(extractor)
+            logger.info(`Loaded ${extractor.platform} extractor from ${specifier}`)
+        }
+    }
+
+    /**
+     * Add an extractor, replacing any registered for the same platform
+     */
+    register(extractor: PlatformExtractor): void {
+        if (!extractor || typeof extractor.platform !== "string" || !extractor.platform) {
+            throw new Error("Extractor is missing a platform")
+        }
+        if (!Array.isArray(extractor.hosts)) {
+            throw new Error(`Extractor "${extractor.platform}" is missing hosts`)
+        }
+        if (typeof extractor.extract !== "function") {
+            throw new Error(`Extractor "${extractor.platform}" is missing extract()`)
+        }
+
+        if (this.extractors.has(extractor.platform)) {
+            logger.debug(`Replacing ${extractor.platform} extractor`)
+        }
+        this.extractors.set(extractor.platform, extractor)
+    }
+
+    /**
+     * Extractor registered for a platform key
+     */
+    get(platform: string): PlatformExtractor | undefined {
+        return this.extractors.get(platform)
+    }
+
+    /**
+     * Extractor for a URL: the first whose hosts and URL check accept it,
+     * else the website fallback
+     */
+    detect(url: string): PlatformExtractor {
+        const parsed = new URL(url)
+        const hostname = parsed.hostname.toLowerCase().replace(/\.$/, "")
+
+        for (const extractor of this.extractors.values()) {
+            if (
+                extractor.hosts.some((host) => matchesHost(hostname, host)) &&
+                (!extractor.isValidUrl || extractor.isValidUrl(parsed))
+            ) {
+                return extractor
+            }
+        }
+
+        return this.get("website") || this.fallback
+    }
+
+    /**
+     * All registered extractors
+     */
+    list(): PlatformExtractor[] {
+        return [...this.extractors.values()]
+    }
+}
+
+/**
+ * Whether a hostname is the given host or one of its subdomains
+ */
+export function matchesHost(hostname: string, host: string): boolean {
+    const domain = host.toLowerCase()
+    return hostname === domain || hostname.endsWith(`.${domain}`)
+}
+
+let defaultRegistry: ExtractorRegistry | null = null
+
+/**
+ * Shared registry with the built-in and EXTRACTOR_CONFIG.MODULES extractors,
+ * loaded on first use
+ */
+export function getExtractorRegistry(): ExtractorRegistry {
+    if (!defaultRegistry) {
+        defaultRegistry = ExtractorRegistry.load()
+    }
+    return defaultRegistry
+}
+
+/**
+ * Name shown for a platform: its extractor's display name, else the
+ * configured PLATFORM_NAMES entry, else the platform key
+ */
+export function getPlatformDisplayName(platform: string): string {
+    return (
+        getExtractorRegistry().get(platform)?.displayName ||
+        PLATFORM_NAMES[platform] ||
+        platform
+    )
+}
@@ -0,0 +1,57 @@
+import { CONTENT_CONFIG } from "../config"
+import { serveFixtures } from "./__fixtures__/serve"
+import { ThreadsExtractor } from "./threads"
+
+const POST_URL = "https://www.threads.net/@maya.reports/post/C4xYzAbCdEf"
+const TEXT =
+    "Confirmed with the transit authority: the new schedule starts 4 March, not 1 March as the flyer says. Thanks @city.transit for the quick answer #commute"
+
+describe("ThreadsExtractor", () => {
+    const extractor = new ThreadsExtractor()
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("extracts the post text and handle from Open Graph tags", async () => {
+        serveFixtures([{ url: POST_URL, fixture: "threads/post.html" }])
+
+        const content = await extractor.extract(POST_URL, {})
+
+        expect(content.title).toBe(TEXT.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH))
+        expect(content.content).toBe(TEXT)
+        expect(content.author).toBe("maya.reports")
+        // Logged-out post pages carry no publication date
+        expect(content.timestamp).toBeUndefined()
+        expect(content.metadata?.hashtags).toEqual(["#commute"])
+        expect(content.metadata?.mentions).toEqual(["@city.transit"])
+        expect(content.metadata?.mediaUrls?.[0]).toMatch(/^https:\/\/scontent\.cdninstagram\.com\//)
+    })
+
+    it("refuses posts that redirect to the login page", async () => {
+        serveFixtures([
+            {
+                url: POST_URL,
+                fixture: "threads/login.html",
+                redirectTo: "https://www.threads.net/login?next=%2F%40maya.reports%2Fpost%2FC4xYzAbCdEf",
+            },
+        ])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "login_required",
+            platform: "threads",
+        })
+    })
+
+    it("refuses deleted posts (404)", async () => {
+        serveFixtures([{ url: POST_URL, status: 404 }])
+
+        await expect(extractor.checkLiveness(POST_URL)).rejects.toMatchObject({
+            reason: "not_found",
+        })
+    })
+
+    it("accepts post URLs only", () => {
+        expect(extractor.isValidUrl(new URL(POST_URL))).toBe(true)
+        expect(extractor.isValidUrl(new URL("https://www.threads.net/@maya.reports"))).toBe(false)
+    })
+})
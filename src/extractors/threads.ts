@@ -0,0 +1,55 @@
+import { ExtractedContent, MESSAGE_TEMPLATES, PLATFORM_NAMES } from "../config"
+import { buildContent, extractHashtags, fetchDocument, metaContent } from "./html"
+import { checkReachable } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+/**
+ * Extracts Threads posts from the page's Open Graph tags
+ * (Threads has no oEmbed endpoint that works without an app token)
+ */
+export class ThreadsExtractor implements PlatformExtractor {
+    platform = "threads"
+    displayName = PLATFORM_NAMES.threads!
+    hosts = ["threads.net", "threads.com"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.threads
+
+    /**
+     * Only /@<user>/post/<id> URLs identify a post
+     */
+    isValidUrl(url: URL): boolean {
+        return /^\/@[^/]+\/post\/[^/]+/.test(url.pathname)
+    }
+
+    /**
+     * Check that the post page still resolves
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(url, this.platform)
+    }
+
+    /**
+     * Extract content from Threads posts
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { $, rawHash } = await fetchDocument(url, context)
+
+        const text = metaContent($, "og:description", "description") || ""
+        // og:title reads "Name (@handle) on Threads"
+        const heading = metaContent($, "og:title") || ""
+        const author =
+            heading.match(/\(@([\w.]+)\)/)?.[1] ||
+            new URL(url).pathname.match(/^\/@([^/]+)/)?.[1]
+        const image = metaContent($, "og:image")
+
+        return buildContent({
+            title: text || heading,
+            content: text,
+            author,
+            hashtags: extractHashtags(text),
+            mentions: text.match(/@[\w.]+/g) || [],
+            mediaUrls: image ? [image] : [],
+            rawHash,
+            source: "html",
+        })
+    }
+}
@@ -0,0 +1,77 @@
+import { CONTENT_CONFIG } from "../config"
+import { serveFixtures } from "./__fixtures__/serve"
+import { SourceUnavailableError } from "./liveness"
+import { TikTokExtractor } from "./tiktok"
+
+const VIDEO_URL = "https://www.tiktok.com/@newsdesk_daily/video/7301234567890123456"
+const CAPTION =
+    "Fact-checking the viral bridge photo 🧵 the original was taken in 2019 #factcheck #verified"
+
+describe("TikTokExtractor", () => {
+    const extractor = new TikTokExtractor()
+
+    afterEach(() => jest.restoreAllMocks())
+
+    it("extracts the caption, author and thumbnail from oEmbed", async () => {
+        serveFixtures([
+            { url: CONTENT_CONFIG.TIKTOK_OEMBED_URL, fixture: "tiktok/oembed.json" },
+        ])
+
+        const content = await extractor.extract(VIDEO_URL, {})
+
+        expect(content.title).toBe(CAPTION)
+        expect(content.content).toBe(CAPTION)
+        expect(content.author).toBe("newsdesk_daily")
+        // oEmbed carries no upload date
+        expect(content.timestamp).toBeUndefined()
+        expect(content.metadata?.hashtags).toEqual(["#factcheck", "#verified"])
+        expect(content.metadata?.mediaUrls?.[0]).toMatch(/^https:\/\/p16-sign-va\.tiktokcdn\.com\//)
+        expect(content.metadata?.source).toBe("oembed")
+        expect(content.rawHash).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it("passes the video URL to oEmbed", async () => {
+        const fetch = serveFixtures([
+            { url: CONTENT_CONFIG.TIKTOK_OEMBED_URL, fixture: "tiktok/oembed.json" },
+        ])
+
+        await extractor.extract(VIDEO_URL, {})
+
+        expect(fetch).toHaveBeenCalledWith(
+            CONTENT_CONFIG.TIKTOK_OEMBED_URL,
+            expect.objectContaining({ params: { url: VIDEO_URL } })
+        )
+    })
+
+    it("refuses removed or private videos (oEmbed answers 400)", async () => {
+        serveFixtures([{ url: CONTENT_CONFIG.TIKTOK_OEMBED_URL, status: 400 }])
+
+        await expect(extractor.checkLiveness(VIDEO_URL)).rejects.toMatchObject({
+            name: "SourceUnavailableError",
+            reason: "not_found",
+            platform: "tiktok",
+        })
+    })
+
+    it("refuses videos behind a login (401)", async () => {
+        serveFixtures([{ url: CONTENT_CONFIG.TIKTOK_OEMBED_URL, status: 401 }])
+
+        const check = extractor.checkLiveness(VIDEO_URL)
+        await expect(check).rejects.toBeInstanceOf(SourceUnavailableError)
+        await expect(check).rejects.toMatchObject({ reason: "login_required" })
+    })
+
+    it("treats rate limiting as inconclusive", async () => {
+        serveFixtures([{ url: CONTENT_CONFIG.TIKTOK_OEMBED_URL, status: 429 }])
+
+        await expect(extractor.checkLiveness(VIDEO_URL)).resolves.toBeUndefined()
+    })
+
+    it("accepts video URLs and share links only", () => {
+        expect(extractor.isValidUrl(new URL(VIDEO_URL))).toBe(true)
+        expect(extractor.isValidUrl(new URL("https://vm.tiktok.com/ZMabcdef/"))).toBe(true)
+        expect(extractor.isValidUrl(new URL("https://www.tiktok.com/@newsdesk_daily"))).toBe(
+            false
+        )
+    })
+})
@@ -0,0 +1,69 @@
+import {
+    CONTENT_CONFIG,
+    ExtractedContent,
+    MESSAGE_TEMPLATES,
+    PLATFORM_NAMES,
+} from "../config"
+import { buildContent, extractHashtags, fetchJson } from "./html"
+import { checkReachable } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+/**
+ * Extracts TikTok videos through the public oEmbed endpoint
+ */
+export class TikTokExtractor implements PlatformExtractor {
+    platform = "tiktok"
+    displayName = PLATFORM_NAMES.tiktok!
+    hosts = ["tiktok.com"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.tiktok
+
+    /**
+     * Video and photo posts, plus vm./vt. share links
+     */
+    isValidUrl(url: URL): boolean {
+        return (
+            /^(vm|vt)\./.test(url.hostname) ||
+            /\/@[^/]+\/(video|photo)\/\d+/.test(url.pathname)
+        )
+    }
+
+    /**
+     * Check that oEmbed still knows the video (it answers 400 for removed
+     * and private videos)
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(CONTENT_CONFIG.TIKTOK_OEMBED_URL, this.platform, {
+            accept: "json",
+            api: true,
+            params: { url },
+            goneStatuses: [400],
+        })
+    }
+
+    /**
+     * Extract content from TikTok videos
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { data, rawHash } = await fetchJson(
+            CONTENT_CONFIG.TIKTOK_OEMBED_URL,
+            { url },
+            context
+        )
+        if (!data?.author_name && !data?.title) {
+            throw new Error("Empty oEmbed response")
+        }
+
+        const caption = String(data.title || "")
+        const author = data.author_unique_id || data.author_name
+
+        return buildContent({
+            title: caption || `TikTok video by ${author}`,
+            content: caption,
+            author,
+            hashtags: extractHashtags(caption),
+            mediaUrls: data.thumbnail_url ? [data.thumbnail_url] : [],
+            rawHash,
+            source: "oembed",
+        })
+    }
+}
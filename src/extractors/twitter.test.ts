@@ -0,0 +1,46 @@
+import { XAPIClient } from "../x-api"
+import { TwitterExtractor } from "./twitter"
+
+const TWEET_URL = "https://x.com/newsdesk/status/1724000000000000000"
+
+describe("TwitterExtractor", () => {
+    it("extracts from the API read made by the liveness check", async () => {
+        const getTweetInfo = jest.fn().mockResolvedValue({
+            success: true,
+            tweet: {
+                id: "1724000000000000000",
+                text: "The storm photo circulating today is from 2017 #verification",
+                created_at: "2023-11-15T14:05:09.000Z",
+                entities: { hashtags: [{ tag: "verification" }] },
+            },
+            author: { username: "newsdesk" },
+            media: [],
+        })
+        const xClient = { getTweetInfo } as unknown as XAPIClient
+        const extractor = new TwitterExtractor()
+
+        await extractor.checkLiveness(TWEET_URL, { xClient })
+        const content = await extractor.extract(TWEET_URL, { xClient })
+
+        expect(getTweetInfo).toHaveBeenCalledTimes(1)
+        expect(content.author).toBe("newsdesk")
+        expect(content.timestamp).toEqual(new Date("2023-11-15T14:05:09.000Z"))
+        expect(content.metadata?.source).toBe("api")
+    })
+
+    it("reads the API again for a tweet the liveness check did not see", async () => {
+        const getTweetInfo = jest.fn().mockResolvedValue({
+            success: true,
+            tweet: { id: "1", text: "Another tweet" },
+            author: { username: "newsdesk" },
+        })
+        const xClient = { getTweetInfo } as unknown as XAPIClient
+        const extractor = new TwitterExtractor()
+
+        await extractor.checkLiveness(TWEET_URL, { xClient })
+        await extractor.extract("https://x.com/newsdesk/status/1", { xClient })
+        await extractor.extract(TWEET_URL, { xClient })
+
+        expect(getTweetInfo).toHaveBeenCalledTimes(3)
+    })
+})
@@ -0,0 +1,314 @@
+import * as cheerio from "cheerio"
+import {
+    CONTENT_CONFIG,
+    ExtractedContent,
+    MESSAGE_TEMPLATES,
+    PLATFORM_NAMES,
+    PostMetadata,
+} from "../config"
+import { logger } from "../utils/logger"
+import { XAPIClient } from "../x-api"
+import { contentHash, sha256 } from "../utils/fingerprint"
+import { fetchJson } from "./html"
+import { checkReachable, SourceUnavailableError } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+type TweetInfo = Awaited<ReturnType<XAPIClient["getTweetInfo"]>>
+
+/**
+ * Extracts X/Twitter posts. Uses the X API when a client is available and
+ * falls back to the public syndication and oEmbed endpoints when API reads
+ * are unavailable.
+ */
+export class TwitterExtractor implements PlatformExtractor {
+    platform = "twitter"
+    displayName = PLATFORM_NAMES.twitter!
+    hosts = ["twitter.com", "x.com"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.twitter
+
+    // API answer from the last liveness check, taken by the extract that
+    // follows it so each tweet costs one API read
+    private checked: { tweetId: string; info: TweetInfo } | null = null
+
+    /**
+     * Only status URLs identify a post
+     */
+    isValidUrl(url: URL): boolean {
+        return extractTweetId(url.toString()) !== null
+    }
+
+    /**
+     * Check that the tweet still exists, through the X API when it can read
+     * tweets and otherwise the syndication endpoint (404 for deleted tweets,
+     * a tombstone for withheld and protected ones)
+     */
+    async checkLiveness(url: string, context: ExtractorContext): Promise<void> {
+        const tweetId = extractTweetId(url)
+        if (!tweetId) {
+            return
+        }
+
+        if (context.xClient) {
+            const info = await context.xClient.getTweetInfo(tweetId)
+            if (info.success) {
+                this.checked = { tweetId, info }
+                return
+            }
+            // getTweetInfo's error when the API answers without the tweet;
+            // other errors (no read access, rate limits) are inconclusive
+            if (info.error === "Tweet not found") {
+                throw new SourceUnavailableError(
+                    "Tweet not found",
+                    "not_found",
+                    this.platform
+                )
+            }
+        }
+
+        const response = await checkReachable(
+            CONTENT_CONFIG.TWITTER_SYNDICATION_URL,
+            this.platform,
+            {
+                accept: "json",
+                api: true,
+                params: { id: tweetId, token: syndicationToken(tweetId) },
+            }
+        )
+        const tweet = response ? JSON.parse(response.body) : undefined
+        if (tweet?.__typename === "TweetTombstone") {
+            throw new SourceUnavailableError(
+                tweet.tombstone?.text?.text || "Tweet is unavailable",
+                "unavailable",
+                this.platform
+            )
+        }
+    }
+
+    /**
+     * Extract content from Twitter/X posts
+     */
+    async extract(
+        url: string,
+        context: ExtractorContext
+    ): Promise<ExtractedContent> {
+        // Extract tweet ID from URL
+        const tweetId = extractTweetId(url)
+        if (!tweetId) {
+            throw new Error("Could not extract tweet ID from URL")
+        }
+
+        const content =
+            (await this.extractFromApi(tweetId, context.xClient)) ||
+            (await this.extractFromSyndication(tweetId, context)) ||
+            (await this.extractFromOEmbed(url, tweetId, context))
+
+        if (!content) {
+            throw new Error("Tweet content unavailable from API, syndication and oEmbed")
+        }
+
+        return content
+    }
+
+    /**
+     * Look up a tweet through the X API (requires read access)
+     */
+    private async extractFromApi(
+        tweetId: string,
+        xClient: XAPIClient | undefined
+    ): Promise<ExtractedContent | null> {
+        if (!xClient) {
+            return null
+        }
+
+        const checked = this.checked?.tweetId === tweetId ? this.checked.info : null
+        this.checked = null
+        const info = checked ?? (await xClient.getTweetInfo(tweetId))
+        if (!info.success || !info.tweet) {
+            return null
+        }
+
+        const tweet = info.tweet
+        const createdAt = tweet.created_at ? new Date(tweet.created_at) : undefined
+        const mediaUrls = (info.media || [])
+            .map((item: any) => item.url || item.preview_image_url)
+            .filter((mediaUrl: string | undefined): mediaUrl is string => !!mediaUrl)
+
+        return buildTweetContent(tweet.text || "", {
+            author: info.author?.username,
+            createdAt,
+            hashtags: (tweet.entities?.hashtags || []).map((tag: any) => `#${tag.tag}`),
+            mentions: (tweet.entities?.mentions || []).map(
+                (mention: any) => `@${mention.username}`
+            ),
+            mediaUrls,
+            tweetId,
+            rawHash: sha256(JSON.stringify(tweet)),
+            source: "api",
+        })
+    }
+
+    /**
+     * Look up a tweet through the public syndication endpoint used by embeds
+     */
+    private async extractFromSyndication(
+        tweetId: string,
+        context: ExtractorContext
+    ): Promise<ExtractedContent | null> {
+        try {
+            const { data: tweet, rawHash } = await fetchJson(
+                CONTENT_CONFIG.TWITTER_SYNDICATION_URL,
+                {
+                    id: tweetId,
+                    token: syndicationToken(tweetId),
+                },
+                context
+            )
+            if (!tweet || typeof tweet.text !== "string") {
+                return null
+            }
+
+            const mediaUrls = (tweet.mediaDetails || [])
+                .map((item: any) => item.media_url_https)
+                .filter((mediaUrl: string | undefined): mediaUrl is string => !!mediaUrl)
+
+            return buildTweetContent(tweet.text, {
+                author: tweet.user?.screen_name,
+                createdAt: tweet.created_at ? new Date(tweet.created_at) : undefined,
+                hashtags: (tweet.entities?.hashtags || []).map((tag: any) => `#${tag.text}`),
+                mentions: (tweet.entities?.user_mentions || []).map(
+                    (mention: any) => `@${mention.screen_name}`
+                ),
+                mediaUrls,
+                tweetId,
+                rawHash,
+                source: "syndication",
+            })
+        } catch (error: any) {
+            logger.warn(`Tweet syndication lookup failed: ${error.message}`)
+            return null
+        }
+    }
+
+    /**
+     * Look up a tweet through the public oEmbed endpoint
+     */
+    private async extractFromOEmbed(
+        url: string,
+        tweetId: string,
+        context: ExtractorContext
+    ): Promise<ExtractedContent | null> {
+        try {
+            const { data: embed, rawHash } = await fetchJson(
+                CONTENT_CONFIG.TWITTER_OEMBED_URL,
+                {
+                    url,
+                    omit_script: "true",
+                },
+                context
+            )
+
+            const $ = cheerio.load(embed?.html || "")
+            const text = $("blockquote p").first().text()
+            if (!text) {
+                return null
+            }
+
+            // The last link in the embed holds the human-readable post date
+            const dateText = $("blockquote a").last().text()
+            const parsedDate = dateText ? new Date(dateText) : undefined
+            const author = String(embed?.author_url || "")
+                .split("/")
+                .filter(Boolean)
+                .pop()
+
+            return buildTweetContent(text, {
+                author,
+                createdAt:
+                    parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : undefined,
+                hashtags: text.match(/#\w+/g) || [],
+                mentions: text.match(/@\w+/g) || [],
+                mediaUrls: [],
+                tweetId,
+                rawHash,
+                source: "oembed",
+            })
+        } catch (error: any) {
+            logger.warn(`Tweet oEmbed lookup failed: ${error.message}`)
+            return null
+        }
+    }
+}
+
+/**
+ * Extract tweet ID from Twitter/X URL
+ */
+export function extractTweetId(url: string): string | null {
+    try {
+        const urlObj = new URL(url)
+        const pathParts = urlObj.pathname.split('/')
+        const statusIndex = pathParts.indexOf('status')
+
+        if (statusIndex !== -1 && statusIndex + 1 < pathParts.length) {
+            const tweetId = pathParts[statusIndex + 1]
+            return tweetId || null
+        }
+
+        return null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Build extracted content from tweet text and its details
+ */
+function buildTweetContent(
+    text: string,
+    details: {
+        author?: string | undefined
+        createdAt?: Date | undefined
+        hashtags: string[]
+        mentions: string[]
+        mediaUrls: string[]
+        tweetId: string
+        rawHash: string
+        source: string
+    }
+): ExtractedContent {
+    const metadata: PostMetadata = {
+        hashtags: details.hashtags,
+        mentions: details.mentions,
+        mediaUrls: details.mediaUrls,
+        tweetId: details.tweetId,
+        source: details.source,
+    }
+    const result: ExtractedContent = {
+        title: text.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH),
+        content: text.substring(0, CONTENT_CONFIG.MAX_CONTENT_LENGTH),
+        metadata,
+        rawHash: details.rawHash,
+        titleHash: contentHash(text),
+        contentHash: contentHash(text),
+    }
+    // Left unset when the source gives no date, so the record does not
+    // claim the fetch time as the publication time
+    if (details.createdAt) {
+        metadata.createdAt = details.createdAt
+        result.timestamp = details.createdAt
+    }
+    if (details.author) {
+        result.author = details.author
+    }
+
+    return result
+}
+
+/**
+ * Token expected by the syndication endpoint, derived from the tweet ID the
+ * same way the official embed widget does
+ */
+function syndicationToken(tweetId: string): string {
+    return ((Number(tweetId) / 1e15) * Math.PI)
+        .toString(36)
+        .replace(/(0+|\.)/g, "")
+}
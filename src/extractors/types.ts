@@ -0,0 +1,44 @@
+import { ExtractedContent } from "../config"
+import { XAPIClient } from "../x-api"
+
+/**
+ * Services available to extractors while extracting a post
+ */
+export interface ExtractorContext {
+    xClient?: XAPIClient | undefined
+    // false to fetch live pages instead of cached responses (rechecks)
+    cache?: boolean | undefined
+}
+
+/**
+ * Extracts post content for one platform. Built-in extractors live in this
+ * directory; others can be loaded through EXTRACTOR_CONFIG.MODULES.
+ */
+export interface PlatformExtractor {
+    // Platform key stored on records and used to pick the message template
+    platform: string
+    // Name used for the {platform} placeholder
+    displayName: string
+    // Hostnames handled by this extractor; their subdomains match too
+    hosts: string[]
+    // Template body used when no template is chosen for the platform
+    defaultTemplate?: string | undefined
+
+    /**
+     * Whether a URL on one of the hosts is a post this extractor understands
+     * (all URLs on the hosts when omitted)
+     */
+    isValidUrl?(url: URL): boolean
+
+    /**
+     * Pre-flight check that the post is still live; throws a
+     * SourceUnavailableError when it is deleted, private or behind a login
+     * wall (no check when omitted)
+     */
+    checkLiveness?(url: string, context: ExtractorContext): Promise<void>
+
+    /**
+     * Extract the post's title, content, author and metadata
+     */
+    extract(url: string, context: ExtractorContext): Promise<ExtractedContent>
+}
@@ -0,0 +1,138 @@
+import {
+    ExtractedContent,
+    MESSAGE_TEMPLATES,
+    PLATFORM_NAMES,
+} from "../config"
+import { buildContent, fetchDocument, jsonLdObjects, metaContent } from "./html"
+import { checkReachable } from "./liveness"
+import { extractReadableText } from "./readability"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+// schema.org types that mark a page as an article
+const ARTICLE_TYPES = [
+    "Article",
+    "NewsArticle",
+    "BlogPosting",
+    "ReportageNewsArticle",
+    "AnalysisNewsArticle",
+    "OpinionNewsArticle",
+    "ReviewNewsArticle",
+    "TechArticle",
+    "ScholarlyArticle",
+]
+
+/**
+ * Fallback extractor for URLs no platform extractor claims. Reads JSON-LD,
+ * Open Graph and article meta tags plus the readable body text, and
+ * classifies article pages as "article".
+ */
+export class WebsiteExtractor implements PlatformExtractor {
+    platform = "website"
+    displayName = PLATFORM_NAMES.website!
+    hosts: string[] = []
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.website
+
+    /**
+     * Check that the page still resolves
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(url, this.platform)
+    }
+
+    /**
+     * Extract content from general websites
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { $, rawHash } = await fetchDocument(url, context)
+
+        const article = jsonLdObjects($).find((entry) =>
+            [entry["@type"]].flat().some((type) => ARTICLE_TYPES.includes(type))
+        )
+
+        // Extract title
+        const title =
+            article?.headline ||
+            metaContent($, "og:title", "twitter:title") ||
+            $("title").text() ||
+            $("h1").first().text()
+
+        // Extract the article body, falling back to the description
+        const content =
+            extractReadableText($) ||
+            article?.articleBody ||
+            article?.description ||
+            metaContent($, "og:description", "description", "twitter:description")
+
+        // Extract author; article:author is often a profile URL
+        const author =
+            jsonLdNames(article?.author) ||
+            withoutUrl(metaContent($, "article:author")) ||
+            metaContent($, "author") ||
+            $('[rel="author"]').first().text().trim() ||
+            $(".author").first().text().trim() ||
+            $("[data-author]").attr("data-author")
+
+        // Extract the publication time rather than using the fetch time
+        const published =
+            article?.datePublished ||
+            metaContent($, "article:published_time", "datePublished") ||
+            $("time[datetime]").first().attr("datetime")
+
+        const canonicalHref = $('link[rel="canonical"]').attr("href")
+        const siteName =
+            metaContent($, "og:site_name") || jsonLdNames(article?.publisher)
+        const image = metaContent($, "og:image")
+
+        const result = buildContent({
+            title,
+            content,
+            author,
+            createdAt: published ? new Date(published) : undefined,
+            mediaUrls: image ? [resolveUrl(image, url)].filter(isString) : [],
+            canonicalUrl:
+                resolveUrl(canonicalHref, url) || metaContent($, "og:url"),
+            siteName,
+            rawHash,
+            source: article ? "json-ld" : "html",
+        })
+
+        const isArticle =
+            !!article ||
+            metaContent($, "og:type") === "article" ||
+            !!metaContent($, "article:published_time")
+        if (isArticle) {
+            result.platform = "article"
+        }
+
+        return result
+    }
+}
+
+/**
+ * Names from a JSON-LD Person/Organization value (or a list of them)
+ */
+function jsonLdNames(value: unknown): string | undefined {
+    const names = [value]
+        .flat()
+        .map((entry: any) => (typeof entry === "string" ? entry : entry?.name))
+        .filter((name): name is string => typeof name === "string" && !!name.trim())
+        .map((name) => name.trim())
+    return names.length > 0 ? names.join(", ") : undefined
+}
+
+function withoutUrl(value: string | undefined): string | undefined {
+    return value && !/^https?:\/\//i.test(value) ? value : undefined
+}
+
+function resolveUrl(href: string | undefined, base: string): string | undefined {
+    if (!href) return undefined
+    try {
+        return new URL(href, base).toString()
+    } catch {
+        return undefined
+    }
+}
+
+function isString(value: string | undefined): value is string {
+    return typeof value === "string"
+}
@@ -0,0 +1,103 @@
+import {
+    CONTENT_CONFIG,
+    ExtractedContent,
+    MESSAGE_TEMPLATES,
+    PLATFORM_NAMES,
+} from "../config"
+import { canonicalizeUrl } from "../utils/canonical-url"
+import { contentHash } from "../utils/fingerprint"
+import { fetchDocument, metaContent } from "./html"
+import { checkReachable, UnavailableMarker } from "./liveness"
+import { ExtractorContext, PlatformExtractor } from "./types"
+
+// Playability states embedded in the watch page's player response. Other
+// LOGIN_REQUIRED reasons (age and bot checks) leave the video live.
+const UNAVAILABLE_MARKERS: UnavailableMarker[] = [
+    {
+        pattern: /"playabilityStatus":\{"status":"ERROR"/,
+        reason: "not_found",
+        message: "Video unavailable",
+    },
+    {
+        pattern: /"playabilityStatus":\{"status":"LOGIN_REQUIRED"[^}]*"This video is private"/,
+        reason: "private",
+        message: "This video is private",
+    },
+]
+
+/**
+ * Extracts YouTube videos from the watch page's metadata
+ */
+export class YouTubeExtractor implements PlatformExtractor {
+    platform = "youtube"
+    displayName = PLATFORM_NAMES.youtube!
+    hosts = ["youtube.com", "youtu.be"]
+    defaultTemplate = MESSAGE_TEMPLATES.PLATFORM_SPECIFIC.youtube
+
+    /**
+     * Check that the video is still playable
+     */
+    async checkLiveness(url: string): Promise<void> {
+        await checkReachable(url, this.platform, { markers: UNAVAILABLE_MARKERS })
+    }
+
+    /**
+     * Extract content from YouTube videos
+     */
+    async extract(url: string, context: ExtractorContext): Promise<ExtractedContent> {
+        const { $, rawHash } = await fetchDocument(url, context)
+
+        // Extract video title
+        const title =
+            $('meta[property="og:title"]').attr("content") ||
+            $("title").text() ||
+            $(".title").text()
+
+        // Extract channel name
+        const author =
+            $('meta[name="author"]').attr("content") ||
+            $(".channel-name").text() ||
+            $('[data-testid="channel-name"]').text()
+
+        // Extract description
+        const description =
+            $('meta[property="og:description"]').attr("content") ||
+            $(".description").text()
+
+        // Thumbnail for the tweet's media attachment
+        const thumbnail = metaContent($, "og:image") || videoThumbnail(url)
+
+        const result: ExtractedContent = { rawHash }
+
+        if (thumbnail) {
+            result.metadata = { mediaUrls: [thumbnail] }
+        }
+
+        if (title) {
+            result.title = title.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH)
+            result.titleHash = contentHash(title)
+        }
+
+        if (description) {
+            result.content = description.substring(
+                0,
+                CONTENT_CONFIG.MAX_CONTENT_LENGTH
+            )
+            result.contentHash = contentHash(description)
+        }
+
+        if (author) {
+            result.author = author
+        }
+
+        return result
+    }
+}
+
+/**
+ * High-quality thumbnail URL for a YouTube video link
+ */
+function videoThumbnail(url: string): string | undefined {
+    const videoId = canonicalizeUrl(url).match(/^youtube:(.+)$/)?.[1]
+    return videoId ? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg` : undefined
+}
@@ -2,17 +2,57 @@
 
 import chalk from "chalk"
 import { Command } from "commander"
+import fs from "fs"
 import ora from "ora"
+import { getAccountRegistry } from "./accounts"
+import { PostAuditor } from "./audit"
 import {
+    BatchInputFormat,
+    BatchInputRow,
+    detectBatchFormat,
+    parseBatchInput,
+} from "./batch-input"
+import {
+    BatchRunner,
+    countItemsByStatus,
+    hashFileContents,
+    resetFailedItems,
+} from "./batch-runner"
+import {
+    AUDIT_CONFIG,
+    AuditAction,
+    BatchRun,
     BOT_CONFIG,
     ERROR_MESSAGES,
-    MESSAGE_TEMPLATES,
+    ExtractionPolicy,
+    JOB_CONFIG,
+    MediaMode,
+    getSecretsVault,
+    MonitorSubscription,
+    OAUTH_CONFIG,
+    PROCESSING_CONFIG,
+    SECRETS_CONFIG,
     SUCCESS_MESSAGES,
-    TWITTER_CONFIG,
+    TweetMode,
+    XAccount,
 } from "./config"
 import { PostDatabase } from "./database"
+import {
+    describeSubscription,
+    parseMonitorTarget,
+    PostMonitor,
+} from "./monitor"
+import { loginWithPkce, revokeToken, validateOAuthConfig } from "./oauth"
+import { VerificationPipeline } from "./pipeline"
 import { PostProcessor } from "./post-processor"
+import { Rechecker } from "./recheck"
+import { cronRunTimes, parseRunAt } from "./scheduling"
+import { getTemplateRegistry, SAMPLE_POST_DATA } from "./templates"
+import { getTokenStore } from "./token-store"
+import { canonicalizeUrl, getCanonicalKey } from "./utils/canonical-url"
 import { logger } from "./utils/logger"
+import { getTweetLength } from "./utils/tweet-length"
+import { JobWorker } from "./worker"
 import { XAPIClient } from "./x-api"
 
 const program = new Command()
@@ -22,6 +62,8 @@ program
     .name("suremark-bot")
     .description("SureMark Truth Seeking Agent - Phase 1")
     .version("1.0.0")
+    // Let subcommands such as `monitor add` reuse their parent's option names
+    .enablePositionalOptions()
 
 // Global error handler
 process.on("unhandledRejection", (error) => {
@@ -29,34 +71,196 @@ process.on("unhandledRejection", (error) => {
     process.exit(1)
 })
 
+/**
+ * Map the --reply/--quote flags onto a tweet mode (undefined keeps the
+ * configured default)
+ */
+function resolveTweetModeOption(options: {
+    reply?: boolean
+    quote?: boolean
+}): TweetMode | undefined {
+    if (options.reply && options.quote) {
+        console.error(chalk.red("Please specify only one of --reply or --quote"))
+        process.exit(1)
+    }
+    if (options.reply) return "reply"
+    if (options.quote) return "quote"
+    return undefined
+}
+
+/**
+ * Look up the --account option's account (the default account when it is
+ * not given), exiting when it is unknown or the accounts file is invalid
+ */
+function resolveAccountOption(name: string | undefined): XAccount {
+    try {
+        return getAccountRegistry().get(name)
+    } catch (error: any) {
+        console.error(chalk.red(error.message))
+        process.exit(1)
+    }
+}
+
+/**
+ * Validate the --extraction-policy option (undefined keeps the configured
+ * default)
+ */
+function resolveExtractionPolicyOption(
+    value: string | undefined
+): ExtractionPolicy | undefined {
+    if (value === undefined) return undefined
+    if (!["strict", "warn", "allow"].includes(value)) {
+        console.error(
+            chalk.red(`Invalid extraction policy: ${value} (use strict, warn or allow)`)
+        )
+        process.exit(1)
+    }
+    return value as ExtractionPolicy
+}
+
+/**
+ * Validate the --media option (undefined keeps the configured default)
+ */
+function resolveMediaModeOption(value: string | undefined): MediaMode | undefined {
+    if (value === undefined) return undefined
+    if (!["none", "thumbnail", "card"].includes(value)) {
+        console.error(
+            chalk.red(`Invalid media mode: ${value} (use none, thumbnail or card)`)
+        )
+        process.exit(1)
+    }
+    return value as MediaMode
+}
+
+/**
+ * Validate an --on-edit or --on-delete audit action
+ */
+function parseAuditActionOption(value: string): AuditAction {
+    if (!["log", "reply", "delete"].includes(value)) {
+        console.error(
+            chalk.red(`Invalid audit action: ${value} (use log, reply or delete)`)
+        )
+        process.exit(1)
+    }
+    return value as AuditAction
+}
+
+/**
+ * Exit early when --template names a template that does not exist or the
+ * templates directory fails validation
+ */
+function checkTemplateOption(name: string | undefined): void {
+    try {
+        const registry = getTemplateRegistry()
+        if (name && !registry.get(name)) {
+            console.error(
+                chalk.red(`Unknown message template: ${name} (see \`templates list\`)`)
+            )
+            process.exit(1)
+        }
+    } catch (error: any) {
+        console.error(chalk.red(error.message))
+        process.exit(1)
+    }
+}
+
+/**
+ * Read post URLs from a file, one per line, skipping blanks and # comments
+ */
+function readUrlsFromFile(file: string): string[] {
+    return fs
+        .readFileSync(file, "utf8")
+        .split("\n")
+        .map((line: string) => line.trim())
+        .filter((line: string) => line && !line.startsWith("#"))
+}
+
+/**
+ * Read a secret without echoing it: typed at a hidden prompt on a
+ * terminal, or piped on stdin (trailing newline removed)
+ */
+async function readHiddenInput(prompt: string): Promise<string> {
+    const stdin = process.stdin
+    if (!stdin.isTTY) {
+        let input = ""
+        for await (const chunk of stdin) {
+            input += chunk
+        }
+        return input.replace(/\r?\n$/, "")
+    }
+
+    process.stdout.write(prompt)
+    stdin.setRawMode(true)
+    stdin.setEncoding("utf8")
+    stdin.resume()
+
+    return new Promise((resolve, reject) => {
+        let value = ""
+        const finish = (error: Error | null) => {
+            stdin.off("data", onData)
+            stdin.setRawMode(false)
+            stdin.pause()
+            process.stdout.write("\n")
+            if (error) reject(error)
+            else resolve(value)
+        }
+        const onData = (chunk: string) => {
+            for (const char of chunk) {
+                if (char === "\r" || char === "\n") return finish(null)
+                if (char === "\u0003") return finish(new Error("Cancelled"))
+                value = char === "\u007f" || char === "\b" ? value.slice(0, -1) : value + char
+            }
+        }
+        stdin.on("data", onData)
+    })
+}
+
 // Tweet command
 program
     .command("tweet")
     .description("Tweet about a verified post")
     .requiredOption("-u, --url <url>", "URL of the post to tweet about")
     .option("-m, --message <message>", "Custom verification message")
+    .option("--template <name>", "Message template to use (see `templates list`)")
     .option(
         "-s, --username <username>",
-        "SureMark username (if different from post author)"
+        "SureMark username expected to have verified the post"
     )
     .option("--dry-run", "Generate tweet without posting")
     .option(
         "--platform <platform>",
         "Specify platform (auto-detected if not provided)"
     )
+    .option("--reply", "Reply under the source tweet (X/Twitter posts only)")
+    .option("--quote", "Quote the source tweet (X/Twitter posts only)")
+    .option(
+        "--extraction-policy <policy>",
+        "Post when content extraction is incomplete: strict, warn or allow"
+    )
+    .option("--media <mode>", "Image to attach: none, thumbnail or card")
+    .option("--thread", "Post a message longer than one tweet as a thread")
+    .option(
+        "--account <name>",
+        "X account to post from (routed by default; see `accounts list`)"
+    )
     .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const mode = resolveTweetModeOption(options)
+        const extractionPolicy = resolveExtractionPolicyOption(options.extractionPolicy)
+        const media = resolveMediaModeOption(options.media)
+        checkTemplateOption(options.template)
         const spinner = ora("Processing post...").start()
 
         try {
             // Validate credentials
-            if (!XAPIClient.validateCredentials()) {
+            if (!XAPIClient.validateCredentials(account)) {
                 spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
                 process.exit(1)
             }
 
             // Initialize components
-            const xClient = new XAPIClient()
-            const postProcessor = new PostProcessor()
+            const xClient = new XAPIClient(account)
+            const postProcessor = new PostProcessor(xClient)
             const database = new PostDatabase()
 
             await database.initialize()
@@ -69,84 +273,106 @@ program
                 process.exit(1)
             }
 
-            // Check if post already processed
-            spinner.text = "Checking if post already processed..."
-            const isProcessed = await database.isPostProcessed(options.url)
-            if (isProcessed) {
-                spinner.fail(chalk.yellow(ERROR_MESSAGES.DUPLICATE_POST))
-                process.exit(1)
-            }
-
-            // Process the post
-            spinner.text = "Extracting content from post..."
-            const postData = await postProcessor.processUrl(
+            const pipeline = new VerificationPipeline(
+                xClient,
+                postProcessor,
+                database
+            )
+            const outcome = await pipeline.verify(
                 options.url,
-                options.username
+                {
+                    username: options.username,
+                    platform: options.platform,
+                    message: options.message,
+                    template: options.template,
+                    dryRun: options.dryRun,
+                    mode,
+                    extractionPolicy,
+                    media,
+                    thread: options.thread,
+                    account: options.account,
+                },
+                (text) => (spinner.text = text)
             )
 
-            // Check if required data is available
-            if (!postData.platform || !postData.url) {
-                throw new Error("Failed to extract required platform or URL information")
+            if (outcome.status === "skipped") {
+                spinner.fail(chalk.yellow(ERROR_MESSAGES.DUPLICATE_POST))
+                process.exit(1)
             }
 
-            // Generate verification message
-            const verificationMessage =
-                postProcessor.generateVerificationMessage(
-                    postData.platform,
-                    postData.suremark_username || "suremark_user",
-                    BOT_CONFIG.SURMARK_DASHBOARD_URL,
-                    options.message
-                )
-
-            if (options.dryRun) {
-                // For dry run, save as processed but not successful
-                await database.saveProcessedPost({
-                    url: postData.url,
-                    platform: postData.platform,
-                    processedAt: new Date(),
-                    suremarkUsername: postData.suremark_username || undefined,
-                    title: postData.title || undefined,
-                    content: postData.content || undefined,
-                    author: postData.author || undefined,
-                    success: false,
-                })
+            if (outcome.status === "dry_run") {
+                const verificationMessage = outcome.message!
 
                 spinner.succeed(chalk.green(SUCCESS_MESSAGES.DRY_RUN))
-                console.log(chalk.cyan("\nGenerated tweet:"))
-                console.log(chalk.white(verificationMessage))
+                if (outcome.thread) {
+                    console.log(
+                        chalk.cyan(`\nGenerated thread (${outcome.thread.length} tweets):`)
+                    )
+                    outcome.thread.forEach((tweet, index) => {
+                        if (index > 0) console.log(chalk.gray("---"))
+                        console.log(chalk.white(tweet))
+                    })
+                } else {
+                    console.log(chalk.cyan("\nGenerated tweet:"))
+                    console.log(chalk.white(verificationMessage))
+                }
+                if (outcome.parentId) {
+                    console.log(
+                        chalk.gray(
+                            `\nWould ${outcome.mode} to tweet ${outcome.parentId}`
+                        )
+                    )
+                }
+                console.log(chalk.gray(`\nAccount: ${outcome.account}`))
                 console.log(
                     chalk.gray(
-                        `\nTweet length: ${verificationMessage.length} characters`
+                        `\nTweet length: ${getTweetLength(verificationMessage)}/${PROCESSING_CONFIG.MAX_TWEET_LENGTH} characters`
                     )
                 )
-            } else {
-                // Post tweet
-                spinner.text = "Posting verification tweet..."
-                const result = await xClient.postTweet(verificationMessage)
-
-                if (result.success) {
-                    // Save to database only after successful tweet posting
-                    await database.saveSuccessfulPost(
-                        {
-                            url: postData.url,
-                            platform: postData.platform,
-                            processedAt: new Date(),
-                            suremarkUsername: postData.suremark_username || undefined,
-                            title: postData.title || undefined,
-                            content: postData.content || undefined,
-                            author: postData.author || undefined,
-                        },
-                        result.tweet_id!,
-                        result.tweet_url!
+                if (outcome.verification) {
+                    console.log(
+                        chalk.gray(
+                            `Verified by @${outcome.verification.username} (${outcome.verification.verificationId})`
+                        )
+                    )
+                }
+                const extraction = outcome.postData?.extraction
+                if (extraction) {
+                    console.log(
+                        chalk.gray(
+                            `Extraction: ${extraction.status}` +
+                                (extraction.missing.length > 0
+                                    ? ` (missing ${extraction.missing.join(", ")})`
+                                    : "")
+                        )
+                    )
+                }
+            } else if (outcome.status === "posted") {
+                spinner.succeed(chalk.green(SUCCESS_MESSAGES.TWEET_POSTED))
+                console.log(chalk.cyan(`\nTweet URL: ${outcome.result?.tweet_url}`))
+                console.log(chalk.cyan(`Tweet ID: ${outcome.result?.tweet_id}`))
+                console.log(chalk.cyan(`Account: ${outcome.account}`))
+                if (outcome.thread) {
+                    console.log(chalk.cyan(`Thread: ${outcome.thread.length} tweets`))
+                }
+                if (outcome.verification) {
+                    console.log(
+                        chalk.cyan(`Verification ID: ${outcome.verification.verificationId}`)
+                    )
+                }
+                if (outcome.parentId) {
+                    console.log(
+                        chalk.cyan(`Mode: ${outcome.mode} (parent tweet ${outcome.parentId})`)
+                    )
+                }
+                if (outcome.media) {
+                    console.log(
+                        chalk.cyan(`Media: ${outcome.media.kind} (${outcome.media.id})`)
                     )
-
-                    spinner.succeed(chalk.green(SUCCESS_MESSAGES.TWEET_POSTED))
-                    console.log(chalk.cyan(`\nTweet URL: ${result.tweet_url}`))
-                    console.log(chalk.cyan(`Tweet ID: ${result.tweet_id}`))
-                } else {
-                    spinner.fail(chalk.red(result.error))
-                    process.exit(1)
                 }
+            } else {
+                spinner.fail(chalk.red(outcome.error))
+                process.exit(1)
             }
 
             await database.close()
@@ -161,40 +387,128 @@ program
 program
     .command("batch")
     .description("Process multiple posts from a file")
-    .requiredOption("-f, --file <file>", "File containing list of post URLs")
+    .option(
+        "-f, --file <file>",
+        "File of posts: one URL per line, CSV or JSON Lines"
+    )
+    .option(
+        "--format <format>",
+        "Input format: text, csv or jsonl (detected from the extension by default)"
+    )
     .option("-d, --delay <seconds>", "Delay between tweets in seconds", "30")
     .option("-s, --username <username>", "SureMark username for all posts")
+    .option("--template <name>", "Message template to use (see `templates list`)")
     .option("--dry-run", "Process without posting tweets")
+    .option("--reply", "Reply under each source tweet (X/Twitter posts only)")
+    .option("--quote", "Quote each source tweet (X/Twitter posts only)")
+    .option(
+        "--extraction-policy <policy>",
+        "Post when content extraction is incomplete: strict, warn or allow"
+    )
+    .option("--resume <runId>", "Continue an interrupted run from where it stopped")
+    .option("--retry-failed <runId>", "Retry the failed URLs of a previous run")
+    .option(
+        "--account <name>",
+        "X account to post from (routed by default; see `accounts list`)"
+    )
     .action(async (options) => {
+        const sources = [options.file, options.resume, options.retryFailed]
+        if (sources.filter(Boolean).length !== 1) {
+            console.error(
+                chalk.red(
+                    "Please specify exactly one of --file, --resume or --retry-failed"
+                )
+            )
+            process.exit(1)
+        }
+
+        const account = resolveAccountOption(options.account)
+        const mode = resolveTweetModeOption(options)
+        const extractionPolicy = resolveExtractionPolicyOption(options.extractionPolicy)
+        checkTemplateOption(options.template)
+        const delay = parseSeconds(options.delay, "Delay")
         const spinner = ora("Starting batch processing...").start()
 
         try {
             // Validate credentials
-            if (!XAPIClient.validateCredentials()) {
+            if (!XAPIClient.validateCredentials(account)) {
                 spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
                 process.exit(1)
             }
 
-            // Read URLs from file
-            const fs = require("fs")
-            const urls = fs
-                .readFileSync(options.file, "utf8")
-                .split("\n")
-                .map((line: string) => line.trim())
-                .filter((line: string) => line && !line.startsWith("#"))
+            let rows: BatchInputRow[] = []
+            let format: BatchInputFormat = "text"
+            let fileHash = ""
+            if (options.file) {
+                // Read and validate every row before anything is posted
+                const contents = fs.readFileSync(options.file)
+                format = detectBatchFormat(options.file, options.format)
+                rows = parseBatchInput(options.file, contents.toString("utf8"), format)
+                fileHash = hashFileContents(contents)
 
-            if (urls.length === 0) {
-                spinner.fail(chalk.red("No valid URLs found in file"))
-                process.exit(1)
+                if (rows.length === 0) {
+                    spinner.fail(chalk.red("No valid URLs found in file"))
+                    process.exit(1)
+                }
             }
 
             // Initialize components
-            const xClient = new XAPIClient()
-            const postProcessor = new PostProcessor()
+            const xClient = new XAPIClient(account)
+            const postProcessor = new PostProcessor(xClient)
             const database = new PostDatabase()
 
             await database.initialize()
 
+            // Load or create the run manifest
+            let run: BatchRun | null
+            if (options.file) {
+                const runId = await database.createBatchRun({
+                    file: options.file,
+                    format,
+                    fileHash,
+                    options: {
+                        username: options.username,
+                        template: options.template,
+                        mode,
+                        dryRun: !!options.dryRun,
+                        delay,
+                        extractionPolicy,
+                        account: options.account,
+                    },
+                    items: rows.map((row) => ({
+                        url: row.url,
+                        status: "pending",
+                        line: row.line,
+                        options: {
+                            username: row.username,
+                            platform: row.platform,
+                            message: row.message,
+                            template: row.template,
+                            mode: row.mode,
+                            account: row.account,
+                        },
+                        runAt: row.runAt,
+                    })),
+                })
+                run = await database.getBatchRun(runId)
+            } else {
+                run = await database.getBatchRun(options.resume || options.retryFailed)
+                if (!run) {
+                    spinner.fail(
+                        chalk.red(`Batch run not found: ${options.resume || options.retryFailed}`)
+                    )
+                    process.exit(1)
+                }
+                if (options.retryFailed) {
+                    const reset = resetFailedItems(run)
+                    if (reset === 0) {
+                        spinner.succeed(chalk.green("No failed URLs to retry"))
+                        await database.close()
+                        return
+                    }
+                }
+            }
+
             // Verify credentials
             spinner.text = "Verifying X API credentials..."
             const credentialsValid = await xClient.verifyCredentials()
@@ -203,107 +517,50 @@ program
                 process.exit(1)
             }
 
-            let processed = 0
-            let skipped = 0
-            let failed = 0
+            const runner = new BatchRunner(
+                new VerificationPipeline(xClient, postProcessor, database),
+                database
+            )
 
-            for (const url of urls) {
-                try {
-                    spinner.text = `Processing ${processed + 1}/${
-                        urls.length
-                    }: ${url}`
+            // Stop after the current URL on Ctrl+C so the run can be resumed
+            const shutdown = (signal: string) => {
+                spinner.text = `Received ${signal}, stopping after the current URL...`
+                runner.stop()
+            }
+            process.once("SIGINT", shutdown)
+            process.once("SIGTERM", shutdown)
 
-                    // Check if already processed
-                    const isProcessed = await database.isPostProcessed(url)
-                    if (isProcessed) {
-                        skipped++
-                        continue
-                    }
+            const summary = await runner.run(run!, ({ index, total, item }) => {
+                spinner.text = `Processing ${index + 1}/${total}: ${item.url}`
+            })
 
-                    // Process post
-                    const postData = await postProcessor.processUrl(
-                        url,
-                        options.username
+            if (summary.remaining > 0) {
+                spinner.warn(
+                    chalk.yellow(
+                        `Batch interrupted with ${summary.remaining} URLs remaining`
                     )
-
-                    // Check if required data is available
-                    if (!postData.platform || !postData.url) {
-                        throw new Error("Failed to extract required platform or URL information")
-                    }
-
-                    // Generate message
-                    const verificationMessage =
-                        postProcessor.generateVerificationMessage(
-                            postData.platform,
-                            postData.suremark_username || "suremark_user",
-                            BOT_CONFIG.SURMARK_DASHBOARD_URL
-                        )
-
-                    if (!options.dryRun) {
-                        // Post tweet
-                        const result = await xClient.postTweet(
-                            verificationMessage
-                        )
-
-                        if (result.success) {
-                            // Save to database only after successful tweet posting
-                            await database.saveSuccessfulPost(
-                                {
-                                    url: postData.url,
-                                    platform: postData.platform,
-                                    processedAt: new Date(),
-                                    suremarkUsername:
-                                        postData.suremark_username || undefined,
-                                    title: postData.title || undefined,
-                                    content: postData.content || undefined,
-                                    author: postData.author || undefined,
-                                },
-                                result.tweet_id!,
-                                result.tweet_url!
-                            )
-                            processed++
-                        } else {
-                            failed++
-                            logger.error(
-                                `Failed to tweet for ${url}: ${result.error}`
-                            )
-                        }
-
-                        // Delay between tweets
-                        if (processed < urls.length) {
-                            await new Promise((resolve) =>
-                                setTimeout(
-                                    resolve,
-                                    parseInt(options.delay) * 1000
-                                )
-                            )
-                        }
-                    } else {
-                        // For dry run, save as processed but not successful
-                        await database.saveProcessedPost({
-                            url: postData.url,
-                            platform: postData.platform,
-                            processedAt: new Date(),
-                            suremarkUsername:
-                                postData.suremark_username || undefined,
-                            title: postData.title || undefined,
-                            content: postData.content || undefined,
-                            author: postData.author || undefined,
-                            success: false,
-                        })
-                        processed++
-                    }
-                } catch (error: any) {
-                    failed++
-                    logger.error(`Error processing ${url}: ${error.message}`)
-                }
+                )
+            } else {
+                spinner.succeed(chalk.green(SUCCESS_MESSAGES.BATCH_COMPLETED))
             }
-
-            spinner.succeed(chalk.green(SUCCESS_MESSAGES.BATCH_COMPLETED))
             console.log(chalk.cyan(`\nResults:`))
-            console.log(chalk.green(`  Processed: ${processed}`))
-            console.log(chalk.yellow(`  Skipped: ${skipped}`))
-            console.log(chalk.red(`  Failed: ${failed}`))
+            console.log(chalk.green(`  Processed: ${summary.processed}`))
+            if (summary.scheduled > 0) {
+                console.log(chalk.cyan(`  Scheduled: ${summary.scheduled}`))
+            }
+            console.log(chalk.yellow(`  Skipped: ${summary.skipped}`))
+            console.log(chalk.red(`  Failed: ${summary.failed}`))
+            console.log(chalk.gray(`\nRun ID: ${run!._id}`))
+            if (summary.remaining > 0) {
+                console.log(
+                    chalk.gray(`Resume with: batch --resume ${run!._id}`)
+                )
+            }
+            if (summary.failed > 0) {
+                console.log(
+                    chalk.gray(`Retry failures with: batch --retry-failed ${run!._id}`)
+                )
+            }
 
             await database.close()
         } catch (error: any) {
@@ -313,13 +570,118 @@ program
         }
     })
 
+/**
+ * Connect to X and MongoDB and poll the given subscriptions until SIGINT/SIGTERM
+ */
+async function runMonitor(
+    spinner: ReturnType<typeof ora>,
+    database: PostDatabase,
+    subscriptions: MonitorSubscription[],
+    dryRun: boolean,
+    account: XAccount
+): Promise<void> {
+    // Validate credentials
+    if (!XAPIClient.validateCredentials(account)) {
+        spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
+        process.exit(1)
+    }
+
+    const xClient = new XAPIClient(account)
+    const postProcessor = new PostProcessor(xClient)
+
+    // Verify credentials
+    spinner.text = "Verifying X API credentials..."
+    const credentialsValid = await xClient.verifyCredentials()
+    if (!credentialsValid) {
+        spinner.fail(chalk.red(ERROR_MESSAGES.API_ERROR))
+        process.exit(1)
+    }
+
+    const monitor = new PostMonitor(
+        xClient,
+        new VerificationPipeline(xClient, postProcessor, database),
+        database,
+        { dryRun }
+    )
+
+    // Shut down cleanly on Ctrl+C or a service stop
+    const shutdown = (signal: string) => {
+        console.log(chalk.yellow(`\nReceived ${signal}, stopping...`))
+        monitor.stop()
+    }
+    process.once("SIGINT", shutdown)
+    process.once("SIGTERM", shutdown)
+
+    spinner.succeed(chalk.green("Monitoring started"))
+    for (const subscription of subscriptions) {
+        console.log(
+            chalk.cyan(
+                `  Monitoring: ${describeSubscription(subscription)} every ${subscription.intervalMinutes} minutes`
+            )
+        )
+    }
+    console.log(chalk.gray("\nPress Ctrl+C to stop monitoring"))
+
+    await monitor.start(subscriptions, (result) => {
+        if (result.found === 0) return
+        console.log(
+            chalk.white(
+                `[${new Date().toISOString()}] ${describeSubscription(result.subscription)}: ` +
+                    `${result.found} new posts, ${result.processed} processed, ` +
+                    `${result.skipped} skipped, ${result.failed} failed`
+            )
+        )
+    })
+
+    console.log(chalk.green("Monitoring stopped"))
+}
+
+/**
+ * Parse and validate a --interval option value
+ */
+function parseInterval(value: string): number {
+    const intervalMinutes = parseFloat(value)
+    if (!(intervalMinutes > 0)) {
+        console.error(chalk.red("Interval must be a positive number"))
+        process.exit(1)
+    }
+    return intervalMinutes
+}
+
+/**
+ * Parse and validate a duration option given in seconds (--delay, --poll)
+ */
+function parseSeconds(value: string, label: string): number {
+    const seconds = parseFloat(value)
+    if (!(seconds > 0)) {
+        console.error(chalk.red(`${label} must be a positive number of seconds`))
+        process.exit(1)
+    }
+    return seconds
+}
+
 // Monitor command
-program
+const monitorCommand = program
     .command("monitor")
-    .description("Monitor a specific user or hashtag")
+    .description(
+        "Monitor a specific user or hashtag, or manage saved monitor subscriptions"
+    )
     .option("-u, --username <username>", "Username to monitor")
     .option("-t, --tag <hashtag>", "Hashtag to monitor")
-    .option("-i, --interval <minutes>", "Check interval in minutes", "5")
+    .option(
+        "-s, --suremark-username <username>",
+        "SureMark username for verified posts (defaults to the monitored username)"
+    )
+    .option(
+        "-i, --interval <minutes>",
+        "Check interval in minutes",
+        String(PROCESSING_CONFIG.DEFAULT_MONITOR_INTERVAL)
+    )
+    .option("--dry-run", "Process new posts without posting tweets")
+    .option(
+        "--account <name>",
+        "X account to post from (routed by default; see `accounts list`)"
+    )
     .action(async (options) => {
         if (!options.username && !options.tag) {
             console.error(
@@ -328,113 +690,438 @@ program
             process.exit(1)
         }
 
+        const intervalMinutes = parseInterval(options.interval)
+        const account = resolveAccountOption(options.account)
         const spinner = ora("Starting monitoring...").start()
 
         try {
-            // Validate credentials
-            if (!XAPIClient.validateCredentials()) {
-                spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
-                process.exit(1)
-            }
+            const database = new PostDatabase()
+            await database.initialize()
 
-            const xClient = new XAPIClient()
+            // Save the target as a subscription so its cursor survives restarts
+            const subscription = await database.addMonitorSubscription({
+                ...parseMonitorTarget(
+                    options.username ? `@${options.username}` : `#${options.tag}`
+                ),
+                intervalMinutes,
+                suremarkUsername: options.suremarkUsername,
+                account: options.account,
+            })
 
-            // Verify credentials
-            spinner.text = "Verifying X API credentials..."
-            const credentialsValid = await xClient.verifyCredentials()
-            if (!credentialsValid) {
-                spinner.fail(chalk.red(ERROR_MESSAGES.API_ERROR))
-                process.exit(1)
-            }
+            await runMonitor(
+                spinner,
+                database,
+                [subscription],
+                !!options.dryRun,
+                account
+            )
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Monitor command error: ${error}`)
+            process.exit(1)
+        }
+    })
 
-            spinner.succeed(chalk.green("Monitoring started"))
-            console.log(
-                chalk.cyan(`\nMonitoring: ${options.username || options.tag}`)
+monitorCommand
+    .command("add")
+    .description("Add (or update) a monitor subscription")
+    .option("-u, --username <username>", "Username to monitor")
+    .option("-t, --tag <hashtag>", "Hashtag to monitor")
+    .option(
+        "-s, --suremark-username <username>",
+        "SureMark username for verified posts (defaults to the monitored username)"
+    )
+    .option(
+        "-i, --interval <minutes>",
+        "Check interval in minutes",
+        String(PROCESSING_CONFIG.DEFAULT_MONITOR_INTERVAL)
+    )
+    .option(
+        "--account <name>",
+        "X account to post from (routed by default; see `accounts list`)"
+    )
+    .action(async (options) => {
+        if (!options.username === !options.tag) {
+            console.error(
+                chalk.red("Please specify exactly one of --username or --tag")
             )
-            console.log(chalk.cyan(`Interval: ${options.interval} minutes`))
-            console.log(chalk.gray("\nPress Ctrl+C to stop monitoring"))
+            process.exit(1)
+        }
+
+        const intervalMinutes = parseInterval(options.interval)
+        if (options.account) resolveAccountOption(options.account)
+        const spinner = ora("Saving monitor subscription...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const subscription = await database.addMonitorSubscription({
+                ...parseMonitorTarget(
+                    options.username ? `@${options.username}` : `#${options.tag}`
+                ),
+                intervalMinutes,
+                suremarkUsername: options.suremarkUsername,
+                account: options.account,
+            })
 
-            // TODO: Implement monitoring logic
-            // This would involve periodic API calls to check for new posts
-            // and processing them automatically
+            spinner.succeed(
+                chalk.green(
+                    `Monitoring ${describeSubscription(subscription)} every ${intervalMinutes} minutes`
+                )
+            )
+            console.log(chalk.cyan(`Subscription ID: ${subscription._id}`))
+
+            await database.close()
         } catch (error: any) {
             spinner.fail(chalk.red(`Error: ${error.message}`))
-            logger.error(`Monitor command error: ${error}`)
+            logger.error(`Monitor add command error: ${error}`)
             process.exit(1)
         }
     })
 
-// Stats command
-program
-    .command("stats")
-    .description("Show processing statistics")
+monitorCommand
+    .command("list")
+    .description("List monitor subscriptions and their cursors")
     .action(async () => {
-        const spinner = ora("Loading statistics...").start()
+        const spinner = ora("Loading monitor subscriptions...").start()
 
         try {
             const database = new PostDatabase()
             await database.initialize()
 
-            const stats = await database.getStatistics()
-
-            spinner.succeed(chalk.green("Statistics loaded"))
+            const subscriptions = await database.getMonitorSubscriptions()
 
-            console.log(chalk.cyan("\n📊 Processing Statistics:"))
-            console.log(chalk.white(`  Total posts processed: ${stats.total}`))
-            console.log(chalk.green(`  Successful posts: ${stats.successful}`))
-            console.log(chalk.red(`  Failed posts: ${stats.failed}`))
-            console.log(chalk.white(`  Successful posts today: ${stats.today}`))
-            console.log(chalk.white(`  Successful posts this week: ${stats.thisWeek}`))
-            console.log(chalk.white(`  Successful posts this month: ${stats.thisMonth}`))
+            spinner.succeed(
+                chalk.green(`Found ${subscriptions.length} subscriptions`)
+            )
 
-            if (Object.keys(stats.byPlatform).length > 0) {
-                console.log(chalk.cyan("\n📱 By Platform:"))
-                Object.entries(stats.byPlatform).forEach(
-                    ([platform, count]) => {
-                        console.log(chalk.white(`  ${platform}: ${count}`))
-                    }
+            subscriptions.forEach((subscription) => {
+                console.log(
+                    chalk.white(
+                        `\n${describeSubscription(subscription)} (${subscription._id})`
+                    )
                 )
-            }
-
-            if (Object.keys(stats.byUsername).length > 0) {
-                console.log(chalk.cyan("\n👤 By SureMark Username:"))
-                Object.entries(stats.byUsername).forEach(
-                    ([username, count]) => {
-                        console.log(chalk.white(`  @${username}: ${count}`))
-                    }
+                console.log(
+                    chalk.gray(
+                        `   Interval: ${subscription.intervalMinutes} minutes`
+                    )
                 )
-            }
+                if (subscription.suremarkUsername) {
+                    console.log(
+                        chalk.gray(
+                            `   SureMark username: @${subscription.suremarkUsername}`
+                        )
+                    )
+                }
+                if (subscription.account) {
+                    console.log(chalk.gray(`   Account: ${subscription.account}`))
+                }
+                console.log(
+                    chalk.gray(
+                        `   Last seen tweet: ${subscription.lastSeenId || "none"}`
+                    )
+                )
+                console.log(
+                    chalk.gray(
+                        `   Last polled: ${
+                            subscription.lastPolledAt?.toISOString() || "never"
+                        }`
+                    )
+                )
+                if (subscription.lastError) {
+                    console.log(
+                        chalk.red(`   Last error: ${subscription.lastError}`)
+                    )
+                }
+            })
 
             await database.close()
         } catch (error: any) {
             spinner.fail(chalk.red(`Error: ${error.message}`))
-            logger.error(`Stats command error: ${error}`)
+            logger.error(`Monitor list command error: ${error}`)
             process.exit(1)
         }
     })
 
-// Search command
-program
-    .command("search")
-    .description("Search processed posts")
-    .requiredOption("-q, --query <query>", "Search query")
-    .option("-l, --limit <number>", "Maximum number of results", "20")
-    .action(async (options) => {
-        const spinner = ora("Searching posts...").start()
+monitorCommand
+    .command("remove")
+    .description("Remove a monitor subscription")
+    .argument("<target>", "Subscription ID, @username or #hashtag")
+    .action(async (target: string) => {
+        const spinner = ora("Removing monitor subscription...").start()
 
         try {
             const database = new PostDatabase()
             await database.initialize()
 
-            const posts = await database.searchPosts(
-                options.query,
-                parseInt(options.limit)
+            const removed = await database.removeMonitorSubscription(
+                /^[0-9a-f]{24}$/i.test(target)
+                    ? { id: target }
+                    : parseMonitorTarget(target)
             )
 
-            spinner.succeed(chalk.green(`Found ${posts.length} posts`))
+            if (removed) {
+                spinner.succeed(chalk.green(`Removed subscription ${target}`))
+            } else {
+                spinner.fail(chalk.yellow(`No subscription found for ${target}`))
+            }
 
-            if (posts.length > 0) {
-                console.log(chalk.cyan("\n🔍 Search Results:"))
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Monitor remove command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+monitorCommand
+    .command("resume")
+    .description("Run all saved monitor subscriptions from their last cursors")
+    .option("--dry-run", "Process new posts without posting tweets")
+    .option(
+        "--account <name>",
+        "X account to read with and post from when a subscription names none"
+    )
+    .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const spinner = ora("Loading monitor subscriptions...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const subscriptions = await database.getMonitorSubscriptions(true)
+            if (subscriptions.length === 0) {
+                spinner.fail(
+                    chalk.yellow(
+                        "No monitor subscriptions found. Add one with `monitor add`."
+                    )
+                )
+                process.exit(1)
+            }
+
+            await runMonitor(
+                spinner,
+                database,
+                options.account
+                    ? subscriptions.map((subscription) => ({
+                          ...subscription,
+                          account: subscription.account ?? options.account,
+                      }))
+                    : subscriptions,
+                !!options.dryRun,
+                account
+            )
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Monitor resume command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Runs command
+const runsCommand = program
+    .command("runs")
+    .description("Inspect batch runs")
+
+runsCommand
+    .command("list")
+    .description("List recent batch runs")
+    .option("-l, --limit <number>", "Maximum number of runs", "20")
+    .action(async (options) => {
+        const spinner = ora("Loading batch runs...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const runs = await database.getBatchRuns(parseInt(options.limit))
+
+            spinner.succeed(chalk.green(`Found ${runs.length} batch runs`))
+
+            runs.forEach((run) => {
+                const counts = countItemsByStatus(run)
+                console.log(
+                    chalk.white(
+                        `\n${run._id}  ${run.status}  ${run.createdAt.toISOString()}`
+                    )
+                )
+                console.log(chalk.gray(`   File: ${run.file} (sha256 ${run.fileHash.slice(0, 12)})`))
+                console.log(
+                    chalk.gray(
+                        `   URLs: ${run.items.length} - ` +
+                            Object.entries(counts)
+                                .map(([status, count]) => `${status}: ${count}`)
+                                .join(", ")
+                    )
+                )
+            })
+
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Runs list command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+runsCommand
+    .command("show")
+    .description("Show the per-URL outcomes of a batch run")
+    .argument("<runId>", "Batch run ID")
+    .action(async (runId: string) => {
+        const spinner = ora("Loading batch run...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const run = await database.getBatchRun(runId)
+            if (!run) {
+                spinner.fail(chalk.red(`Batch run not found: ${runId}`))
+                process.exit(1)
+            }
+
+            spinner.succeed(chalk.green(`Batch run ${run._id} (${run.status})`))
+            console.log(chalk.gray(`File: ${run.file}`))
+            console.log(chalk.gray(`SHA-256: ${run.fileHash}`))
+            console.log(chalk.gray(`Started: ${run.createdAt.toISOString()}`))
+            if (run.finishedAt) {
+                console.log(chalk.gray(`Finished: ${run.finishedAt.toISOString()}`))
+            }
+
+            const colors: Record<string, (text: string) => string> = {
+                posted: chalk.green,
+                dry_run: chalk.cyan,
+                skipped: chalk.yellow,
+                failed: chalk.red,
+                pending: chalk.gray,
+                scheduled: chalk.cyan,
+            }
+
+            run.items.forEach((item, index) => {
+                const color = colors[item.status] || chalk.white
+                const duration =
+                    item.startedAt && item.finishedAt
+                        ? ` ${((item.finishedAt.getTime() - item.startedAt.getTime()) / 1000).toFixed(1)}s`
+                        : ""
+                console.log(
+                    color(`\n${index + 1}. [${item.status}]${duration} ${item.url}`)
+                )
+                if (item.tweetId) {
+                    console.log(chalk.gray(`   Tweet ID: ${item.tweetId}`))
+                }
+                if (item.jobId) {
+                    console.log(
+                        chalk.gray(
+                            `   Job ID: ${item.jobId} (runs at ${item.runAt?.toISOString()})`
+                        )
+                    )
+                }
+                if (item.error) {
+                    console.log(chalk.red(`   Error: ${item.error}`))
+                }
+                if (item.partialThreadIds) {
+                    console.log(
+                        chalk.yellow(`   Left posted: ${item.partialThreadIds.join(", ")}`)
+                    )
+                }
+            })
+
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Runs show command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Stats command
+program
+    .command("stats")
+    .description("Show processing statistics")
+    .option("--account <name>", "Only count posts from this X account")
+    .action(async (options) => {
+        if (options.account) resolveAccountOption(options.account)
+        const spinner = ora("Loading statistics...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const stats = await database.getStatistics(options.account)
+
+            spinner.succeed(chalk.green("Statistics loaded"))
+
+            console.log(chalk.cyan("\n📊 Processing Statistics:"))
+            console.log(chalk.white(`  Total posts processed: ${stats.total}`))
+            console.log(chalk.green(`  Successful posts: ${stats.successful}`))
+            console.log(chalk.red(`  Failed posts: ${stats.failed}`))
+            console.log(chalk.white(`  Successful posts today: ${stats.today}`))
+            console.log(chalk.white(`  Successful posts this week: ${stats.thisWeek}`))
+            console.log(chalk.white(`  Successful posts this month: ${stats.thisMonth}`))
+
+            if (Object.keys(stats.byPlatform).length > 0) {
+                console.log(chalk.cyan("\n📱 By Platform:"))
+                Object.entries(stats.byPlatform).forEach(
+                    ([platform, count]) => {
+                        console.log(chalk.white(`  ${platform}: ${count}`))
+                    }
+                )
+            }
+
+            if (Object.keys(stats.byUsername).length > 0) {
+                console.log(chalk.cyan("\n👤 By SureMark Username:"))
+                Object.entries(stats.byUsername).forEach(
+                    ([username, count]) => {
+                        console.log(chalk.white(`  @${username}: ${count}`))
+                    }
+                )
+            }
+
+            if (!options.account && Object.keys(stats.byAccount).length > 0) {
+                console.log(chalk.cyan("\n🔑 By X Account:"))
+                Object.entries(stats.byAccount).forEach(([account, count]) => {
+                    console.log(chalk.white(`  ${account}: ${count}`))
+                })
+            }
+
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Stats command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Search command
+program
+    .command("search")
+    .description("Search processed posts")
+    .requiredOption("-q, --query <query>", "Search query")
+    .option("-l, --limit <number>", "Maximum number of results", "20")
+    .option("--account <name>", "Only search posts from this X account")
+    .action(async (options) => {
+        if (options.account) resolveAccountOption(options.account)
+        const spinner = ora("Searching posts...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const posts = await database.searchPosts(
+                options.query,
+                parseInt(options.limit),
+                options.account
+            )
+
+            spinner.succeed(chalk.green(`Found ${posts.length} posts`))
+
+            if (posts.length > 0) {
+                console.log(chalk.cyan("\n🔍 Search Results:"))
                 posts.forEach((post, index) => {
                     console.log(
                         chalk.white(
@@ -453,6 +1140,9 @@ program
                     if (post.tweet?.url) {
                         console.log(chalk.blue(`   Tweet: ${post.tweet.url}`))
                     }
+                    if (post.account) {
+                        console.log(chalk.gray(`   Account: ${post.account}`))
+                    }
                 })
             } else {
                 console.log(chalk.yellow("No posts found matching your query."))
@@ -466,5 +1156,805 @@ program
         }
     })
 
+// Schedule command
+program
+    .command("schedule")
+    .description("Schedule verification tweets to be posted later by a worker")
+    .option("-u, --url <url>", "URL of the post to tweet about")
+    .option("-f, --file <file>", "File containing list of post URLs")
+    .option(
+        "--at <time>",
+        "When to post: ISO 8601 timestamp or HH:MM (UTC); defaults to now"
+    )
+    .option(
+        "--cron <expression>",
+        "Cron expression (UTC); each URL gets the next free occurrence"
+    )
+    .option("-m, --message <message>", "Custom verification message")
+    .option("--template <name>", "Message template to use (see `templates list`)")
+    .option("-s, --username <username>", "SureMark username for the posts")
+    .option("--reply", "Reply under the source tweet (X/Twitter posts only)")
+    .option("--quote", "Quote the source tweet (X/Twitter posts only)")
+    .option(
+        "--max-attempts <number>",
+        "Attempts before a job is marked failed",
+        String(JOB_CONFIG.MAX_ATTEMPTS)
+    )
+    .option(
+        "--account <name>",
+        "X account to post from (routed by default; see `accounts list`)"
+    )
+    .action(async (options) => {
+        if (!options.url === !options.file) {
+            console.error(chalk.red("Please specify exactly one of --url or --file"))
+            process.exit(1)
+        }
+        if (options.at && options.cron) {
+            console.error(chalk.red("Please specify only one of --at or --cron"))
+            process.exit(1)
+        }
+
+        const mode = resolveTweetModeOption(options)
+        if (options.account) resolveAccountOption(options.account)
+        checkTemplateOption(options.template)
+        const spinner = ora("Scheduling posts...").start()
+
+        try {
+            const urls: string[] = options.url
+                ? [options.url]
+                : readUrlsFromFile(options.file)
+
+            if (urls.length === 0) {
+                spinner.fail(chalk.red("No valid URLs found in file"))
+                process.exit(1)
+            }
+
+            const runTimes: Date[] = options.cron
+                ? cronRunTimes(options.cron, urls.length)
+                : urls.map(() =>
+                      options.at ? parseRunAt(options.at) : new Date()
+                  )
+
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const jobIds = await database.enqueueJobs(
+                urls.map((url, index) => ({
+                    url,
+                    runAt: runTimes[index]!,
+                    options: {
+                        username: options.username,
+                        message: options.message,
+                        template: options.template,
+                        mode,
+                        account: options.account,
+                    },
+                    maxAttempts:
+                        parseInt(options.maxAttempts) || JOB_CONFIG.MAX_ATTEMPTS,
+                }))
+            )
+
+            spinner.succeed(chalk.green(`Scheduled ${jobIds.length} posts`))
+            urls.forEach((url, index) => {
+                console.log(
+                    chalk.white(
+                        `  ${runTimes[index]!.toISOString()}  ${url}  (${jobIds[index]})`
+                    )
+                )
+            })
+            console.log(chalk.gray("\nRun `worker` to post scheduled jobs"))
+
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Schedule command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Worker command
+program
+    .command("worker")
+    .description("Post scheduled verification tweets as they become due")
+    .option(
+        "-p, --poll <seconds>",
+        "Seconds between checks for due jobs",
+        String(JOB_CONFIG.POLL_INTERVAL)
+    )
+    .option("--once", "Exit when no jobs are due instead of waiting")
+    .option(
+        "--account <name>",
+        "X account to post from when a job names none (routed by default)"
+    )
+    .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const pollSeconds = parseSeconds(options.poll, "Poll interval")
+        const spinner = ora("Starting worker...").start()
+
+        try {
+            // Validate credentials
+            if (!XAPIClient.validateCredentials(account)) {
+                spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
+                process.exit(1)
+            }
+
+            const xClient = new XAPIClient(account)
+            const postProcessor = new PostProcessor(xClient)
+            const database = new PostDatabase()
+
+            await database.initialize()
+
+            // Verify credentials
+            spinner.text = "Verifying X API credentials..."
+            const credentialsValid = await xClient.verifyCredentials()
+            if (!credentialsValid) {
+                spinner.fail(chalk.red(ERROR_MESSAGES.API_ERROR))
+                process.exit(1)
+            }
+
+            const worker = new JobWorker(
+                new VerificationPipeline(xClient, postProcessor, database),
+                database,
+                {
+                    pollIntervalMs: pollSeconds * 1000,
+                    once: !!options.once,
+                    account: options.account,
+                }
+            )
+
+            // Shut down cleanly on Ctrl+C or a service stop
+            const shutdown = (signal: string) => {
+                console.log(chalk.yellow(`\nReceived ${signal}, stopping...`))
+                worker.stop()
+            }
+            process.once("SIGINT", shutdown)
+            process.once("SIGTERM", shutdown)
+
+            spinner.succeed(chalk.green(`Worker ${worker.workerId} started`))
+
+            await worker.start((outcome) => {
+                const line = `[${new Date().toISOString()}] ${outcome.job.url}: ${outcome.status}${
+                    outcome.detail ? ` (${outcome.detail})` : ""
+                }`
+                console.log(
+                    outcome.status === "done"
+                        ? chalk.green(line)
+                        : outcome.status === "retry"
+                          ? chalk.yellow(line)
+                          : chalk.red(line)
+                )
+            })
+
+            await database.close()
+            console.log(chalk.green("Worker stopped"))
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Worker command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Accounts command
+const accountsCommand = program
+    .command("accounts")
+    .description("Inspect the X accounts tweets are posted from")
+
+accountsCommand
+    .command("list")
+    .description("List X accounts and the routing rules that pick them")
+    .action(() => {
+        try {
+            const registry = getAccountRegistry()
+
+            console.log(chalk.cyan("\n🔑 X Accounts:"))
+            for (const account of registry.list()) {
+                const isDefault = account.name === registry.defaultAccount
+                const configured = XAPIClient.validateCredentials(account)
+                console.log(
+                    chalk.white(`  ${account.name}${isDefault ? " (default)" : ""}`) +
+                        (account.description ? chalk.gray(` - ${account.description}`) : "")
+                )
+                if (!configured) {
+                    console.log(chalk.red("     Missing credentials"))
+                } else if (getTokenStore().has(account.name)) {
+                    console.log(chalk.gray("     Auth: OAuth 2.0 (see `auth status`)"))
+                }
+                if (account.rateLimits) {
+                    console.log(
+                        chalk.gray(
+                            `     Rate limits: ${Object.entries(account.rateLimits)
+                                .map(([endpoint, limit]) => `${endpoint} ${limit}`)
+                                .join(", ")}`
+                        )
+                    )
+                }
+            }
+
+            const routes = registry.listRoutes()
+            if (routes.length > 0) {
+                console.log(chalk.cyan("\n🧭 Routes (first match wins):"))
+                routes.forEach((route, index) => {
+                    const conditions = [
+                        route.platforms && `platform ${route.platforms.join("/")}`,
+                        route.usernames &&
+                            `username ${route.usernames.map((name) => `@${name}`).join("/")}`,
+                    ].filter(Boolean)
+                    console.log(
+                        chalk.white(
+                            `  ${index + 1}. ${conditions.join(" and ") || "any post"} -> ${route.account}`
+                        )
+                    )
+                })
+            }
+        } catch (error: any) {
+            console.error(chalk.red(error.message))
+            process.exit(1)
+        }
+    })
+
+// Auth command
+const authCommand = program
+    .command("auth")
+    .description("Log bot accounts in with OAuth 2.0 instead of API keys")
+
+authCommand
+    .command("login")
+    .description("Authorize an X account in the browser (OAuth 2.0 with PKCE)")
+    .option("--account <name>", "Account to log in (see `accounts list`)")
+    .option(
+        "--port <port>",
+        "Port of the local callback server",
+        String(OAUTH_CONFIG.CALLBACK_PORT)
+    )
+    .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const port = parseInt(options.port)
+        if (!(port > 0 && port < 65536)) {
+            console.error(chalk.red(`Invalid port: ${options.port}`))
+            process.exit(1)
+        }
+        if (!validateOAuthConfig()) {
+            console.error(
+                chalk.red(
+                    "Set TWITTER_CLIENT_ID (and TWITTER_CLIENT_SECRET for confidential clients)"
+                )
+            )
+            process.exit(1)
+        }
+        if (!OAUTH_CONFIG.TOKEN_PASSPHRASE) {
+            console.error(chalk.red("Set TWITTER_TOKEN_PASSPHRASE to encrypt the stored tokens"))
+            process.exit(1)
+        }
+
+        const spinner = ora("Starting login...").start()
+
+        try {
+            const token = await loginWithPkce({
+                port,
+                onAuthorizeUrl: (url) => {
+                    spinner.stop()
+                    console.log(chalk.cyan(`\nOpen this URL to authorize ${account.name}:`))
+                    console.log(chalk.white(`  ${url}\n`))
+                    console.log(
+                        chalk.gray(
+                            `The app's callback URL must be http://127.0.0.1:${port}${OAUTH_CONFIG.CALLBACK_PATH}`
+                        )
+                    )
+                    spinner.start("Waiting for authorization...")
+                },
+            })
+
+            getTokenStore().save(account.name, token)
+            spinner.succeed(chalk.green(`Logged in ${account.name} as @${token.username}`))
+            console.log(chalk.gray(`Scopes: ${token.scopes.join(", ")}`))
+            if (!token.refreshToken) {
+                console.log(
+                    chalk.yellow(
+                        `No refresh token granted; log in again after ${token.expiresAt.toLocaleString()}`
+                    )
+                )
+            }
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Auth login error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+authCommand
+    .command("status")
+    .description("Show how each X account authenticates")
+    .option("--account <name>", "Only show this account")
+    .action((options) => {
+        try {
+            const registry = getAccountRegistry()
+            const accounts = options.account
+                ? [resolveAccountOption(options.account)]
+                : registry.list()
+            const tokens = getTokenStore()
+
+            console.log(chalk.cyan("\n🔐 Authentication:"))
+            for (const account of accounts) {
+                console.log(chalk.white(`  ${account.name}`))
+
+                if (!tokens.has(account.name)) {
+                    console.log(
+                        XAPIClient.validateCredentials(account)
+                            ? chalk.gray("     OAuth 1.0a keys")
+                            : chalk.red("     Not configured (run `auth login`)")
+                    )
+                    continue
+                }
+                if (!OAUTH_CONFIG.TOKEN_PASSPHRASE) {
+                    console.log(
+                        chalk.gray("     OAuth 2.0 (set TWITTER_TOKEN_PASSPHRASE for details)")
+                    )
+                    continue
+                }
+
+                const token = tokens.get(account.name)!
+                const expired = token.expiresAt.getTime() <= Date.now()
+                console.log(chalk.gray(`     OAuth 2.0 as @${token.username ?? "unknown"}`))
+                console.log(chalk.gray(`     Scopes: ${token.scopes.join(", ")}`))
+                console.log(
+                    (expired && !token.refreshToken ? chalk.red : chalk.gray)(
+                        `     Access token ${expired ? "expired" : "expires"} ${token.expiresAt.toLocaleString()}` +
+                            (token.refreshToken ? " (refreshed automatically)" : "")
+                    )
+                )
+                console.log(
+                    chalk.gray(`     Logged in: ${token.obtainedAt.toLocaleString()}`)
+                )
+            }
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            process.exit(1)
+        }
+    })
+
+authCommand
+    .command("logout")
+    .description("Revoke and forget an account's OAuth 2.0 token")
+    .option("--account <name>", "Account to log out (default account by default)")
+    .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const tokens = getTokenStore()
+
+        if (!tokens.has(account.name)) {
+            console.log(chalk.yellow(`${account.name} is not logged in with OAuth 2.0`))
+            return
+        }
+
+        const spinner = ora(`Logging out ${account.name}...`).start()
+
+        try {
+            // Revocation is best-effort: the token is forgotten either way
+            const token = tokens.get(account.name)!
+            try {
+                await revokeToken(token)
+            } catch (error: any) {
+                logger.warn(`Could not revoke token for ${account.name}: ${error.message}`)
+                spinner.warn(chalk.yellow(`Could not revoke the token at X: ${error.message}`))
+                spinner.start()
+            }
+
+            tokens.remove(account.name)
+            spinner.succeed(chalk.green(`Logged out ${account.name}`))
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Auth logout error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Secrets command
+const secretsCommand = program
+    .command("secrets")
+    .description("Manage the encrypted secrets vault (SECRETS_FILE)")
+
+secretsCommand
+    .command("set <name> [value]")
+    .description(
+        "Store a secret, e.g. TWITTER_API_KEY or MONGODB_URI (prompted or read from stdin when no value is given)"
+    )
+    .action(async (name: string, value: string | undefined) => {
+        try {
+            const secret = value ?? (await readHiddenInput(`Value for ${name}: `))
+            if (!secret) {
+                console.error(chalk.red("Secret value must not be empty"))
+                process.exit(1)
+            }
+
+            getSecretsVault().set(name, secret)
+            console.log(chalk.green(`Stored ${name} in ${SECRETS_CONFIG.FILE}`))
+            if (process.env[name]) {
+                console.log(
+                    chalk.yellow(`${name} is also set in the environment, which takes precedence`)
+                )
+            }
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            process.exit(1)
+        }
+    })
+
+secretsCommand
+    .command("get <name>")
+    .description("Print a secret's value")
+    .action((name: string) => {
+        try {
+            const value = getSecretsVault().get(name)
+            if (value === undefined) {
+                console.error(chalk.red(`No secret named ${name}`))
+                process.exit(1)
+            }
+            console.log(value)
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            process.exit(1)
+        }
+    })
+
+secretsCommand
+    .command("list")
+    .description("List stored secrets (names only)")
+    .action(() => {
+        try {
+            const secrets = getSecretsVault().list()
+            if (secrets.length === 0) {
+                console.log(chalk.yellow(`No secrets stored in ${SECRETS_CONFIG.FILE}`))
+                return
+            }
+
+            console.log(chalk.cyan(`\n🔒 Secrets (${secrets.length}):`))
+            for (const secret of secrets) {
+                console.log(
+                    chalk.white(`  ${secret.name}`) +
+                        chalk.gray(` - updated ${secret.updatedAt.toLocaleString()}`) +
+                        (process.env[secret.name]
+                            ? chalk.yellow(" (overridden by environment)")
+                            : "")
+                )
+            }
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            process.exit(1)
+        }
+    })
+
+secretsCommand
+    .command("rotate")
+    .description("Re-encrypt the vault under a new master passphrase")
+    .action(async () => {
+        try {
+            const vault = getSecretsVault()
+            if (!vault.exists()) {
+                console.error(chalk.red(`No secrets vault at ${SECRETS_CONFIG.FILE}`))
+                process.exit(1)
+            }
+            // Unlock with the current passphrase before asking for a new one
+            const count = vault.list().length
+
+            const passphrase = await readHiddenInput("New master passphrase: ")
+            if (process.stdin.isTTY) {
+                const confirmation = await readHiddenInput("Repeat new master passphrase: ")
+                if (confirmation !== passphrase) {
+                    console.error(chalk.red("Passphrases do not match"))
+                    process.exit(1)
+                }
+            }
+
+            vault.rotate(passphrase)
+            console.log(chalk.green(`Re-encrypted ${count} secret(s)`))
+            console.log(
+                chalk.yellow(
+                    "Update SECRETS_PASSPHRASE (or SECRETS_KEY_FILE) to the new passphrase"
+                )
+            )
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            process.exit(1)
+        }
+    })
+
+// Templates command
+const templatesCommand = program
+    .command("templates")
+    .description("Inspect message templates")
+
+templatesCommand
+    .command("list")
+    .description("List available message templates")
+    .action(() => {
+        try {
+            const templates = getTemplateRegistry().list()
+
+            console.log(chalk.cyan(`\n📝 Message Templates (${templates.length}):`))
+            templates.forEach((template) => {
+                console.log(
+                    chalk.white(
+                        `\n  ${template.name} v${template.version} [${template.locale || "any"}]`
+                    )
+                )
+                if (template.description) {
+                    console.log(chalk.gray(`    ${template.description}`))
+                }
+                console.log(
+                    chalk.gray(
+                        `    Platforms: ${template.platforms?.join(", ") || "*"}`
+                    )
+                )
+                console.log(chalk.gray(`    Source: ${template.source}`))
+            })
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            logger.error(`Templates list command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+templatesCommand
+    .command("preview")
+    .description("Render templates against a sample post")
+    .argument("[name]", "Template to preview (all templates if omitted)")
+    .action((name?: string) => {
+        try {
+            const registry = getTemplateRegistry()
+            const templates = name
+                ? registry.list().filter((template) => template.name === name)
+                : registry.list()
+
+            if (templates.length === 0) {
+                console.error(chalk.red(`Unknown message template: ${name}`))
+                process.exit(1)
+            }
+
+            const postProcessor = new PostProcessor()
+            templates.forEach((template) => {
+                const samplePost = {
+                    ...SAMPLE_POST_DATA,
+                    platform: template.platforms?.find((p) => p !== "*") ||
+                        SAMPLE_POST_DATA.platform,
+                }
+                const message = postProcessor.generateVerificationMessage(
+                    samplePost,
+                    BOT_CONFIG.SURMARK_DASHBOARD_URL,
+                    template.body
+                )
+
+                console.log(
+                    chalk.cyan(
+                        `\n${template.name} v${template.version} [${template.locale || "any"}] ` +
+                            `(${getTweetLength(message)}/${PROCESSING_CONFIG.MAX_TWEET_LENGTH} characters):`
+                    )
+                )
+                console.log(chalk.white(message))
+            })
+        } catch (error: any) {
+            console.error(chalk.red(`Error: ${error.message}`))
+            logger.error(`Templates preview command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Migrate command
+program
+    .command("migrate")
+    .description("Backfill canonical URL keys on previously processed posts")
+    .option("--no-resolve", "Do not follow short links while backfilling")
+    .action(async (options) => {
+        const spinner = ora("Backfilling canonical keys...").start()
+
+        try {
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const { updated, failed } = await database.backfillCanonicalKeys(
+                options.resolve
+                    ? getCanonicalKey
+                    : async (url) => canonicalizeUrl(url)
+            )
+
+            spinner.succeed(
+                chalk.green(`Backfilled canonical keys on ${updated} post(s)`)
+            )
+            if (failed.length > 0) {
+                console.log(chalk.yellow(`\n⚠️  Could not canonicalize ${failed.length} URL(s):`))
+                failed.forEach((url) => console.log(chalk.white(`  ${url}`)))
+            }
+
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Migrate command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Recheck command
+program
+    .command("recheck")
+    .description("Re-fetch tweeted posts and flag those edited since verification")
+    .option("-u, --url <url>", "Recheck a single post")
+    .option("-l, --limit <number>", "Number of posts to recheck", "50")
+    .option("--reply", "Reply under the verification tweet when a post was edited")
+    .option("--account <name>", "Only recheck posts from this X account")
+    .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const spinner = ora("Loading posts to recheck...").start()
+
+        try {
+            if (options.reply && !XAPIClient.validateCredentials(account)) {
+                spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
+                process.exit(1)
+            }
+
+            const xClient = new XAPIClient(account)
+            const database = new PostDatabase()
+            await database.initialize()
+            const rechecker = new Rechecker(
+                xClient,
+                new PostProcessor(xClient),
+                database
+            )
+
+            const posts = await database.getPostsToRecheck(
+                parseInt(options.limit),
+                options.url,
+                options.account
+            )
+            if (posts.length === 0) {
+                spinner.info(chalk.yellow("No fingerprinted posts to recheck"))
+                await database.close()
+                return
+            }
+
+            const counts: Record<string, number> = {}
+            for (const [index, post] of posts.entries()) {
+                spinner.text = `Rechecking ${index + 1}/${posts.length}: ${post.url}`
+                const result = await rechecker.recheck(post, { reply: options.reply })
+                counts[result.status] = (counts[result.status] || 0) + 1
+
+                if (result.status === "edited") {
+                    spinner.warn(
+                        chalk.yellow(`Edited: ${post.url} (${result.changed.join(", ")} changed)`)
+                    )
+                    if (result.replyTweetId) {
+                        console.log(chalk.gray(`   Follow-up reply: ${result.replyTweetId}`))
+                    }
+                } else if (result.status === "inconclusive") {
+                    spinner.info(chalk.gray(`Inconclusive: ${post.url} (${result.error})`))
+                } else if (result.status === "unavailable") {
+                    spinner.warn(chalk.yellow(`Unavailable: ${post.url} (${result.error})`))
+                } else if (result.status === "failed") {
+                    spinner.fail(chalk.red(`Could not recheck ${post.url}: ${result.error}`))
+                }
+                spinner.start()
+            }
+
+            spinner.succeed(
+                chalk.green(
+                    `Rechecked ${posts.length} post(s): ` +
+                        ["unchanged", "edited", "inconclusive", "unavailable", "failed"]
+                            .map((status) => `${counts[status] || 0} ${status}`)
+                            .join(", ")
+                )
+            )
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Recheck command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
+// Audit command
+program
+    .command("audit")
+    .description(
+        "Re-check tweeted posts for edits and deletions and act on our verification tweets"
+    )
+    .option(
+        "--on-edit <action>",
+        "Action when a source was edited: log, reply or delete",
+        AUDIT_CONFIG.EDIT_ACTION
+    )
+    .option(
+        "--on-delete <action>",
+        "Action when a source was deleted: log, reply or delete",
+        AUDIT_CONFIG.DELETE_ACTION
+    )
+    .option(
+        "-i, --interval <minutes>",
+        "Minutes between audit passes",
+        String(AUDIT_CONFIG.INTERVAL)
+    )
+    .option(
+        "-l, --limit <number>",
+        "Posts checked per pass",
+        String(AUDIT_CONFIG.BATCH_SIZE)
+    )
+    .option("--once", "Run a single pass and exit")
+    .option("--account <name>", "Only audit posts from this X account")
+    .action(async (options) => {
+        const account = resolveAccountOption(options.account)
+        const editAction = parseAuditActionOption(options.onEdit)
+        const deleteAction = parseAuditActionOption(options.onDelete)
+        const intervalMinutes = parseInterval(options.interval)
+        const spinner = ora("Starting audit...").start()
+
+        try {
+            const actsOnTweets = editAction !== "log" || deleteAction !== "log"
+            if (actsOnTweets && !XAPIClient.validateCredentials(account)) {
+                spinner.fail(chalk.red(ERROR_MESSAGES.MISSING_CREDENTIALS))
+                process.exit(1)
+            }
+
+            const xClient = new XAPIClient(account)
+            const database = new PostDatabase()
+            await database.initialize()
+
+            const auditor = new PostAuditor(
+                xClient,
+                new Rechecker(xClient, new PostProcessor(xClient), database),
+                database,
+                {
+                    editAction,
+                    deleteAction,
+                    batchSize: parseInt(options.limit),
+                    intervalMinutes,
+                    once: !!options.once,
+                    account: options.account,
+                }
+            )
+
+            // Shut down cleanly on Ctrl+C or a service stop
+            const shutdown = (signal: string) => {
+                console.log(chalk.yellow(`\nReceived ${signal}, stopping...`))
+                auditor.stop()
+            }
+            process.once("SIGINT", shutdown)
+            process.once("SIGTERM", shutdown)
+
+            spinner.succeed(
+                chalk.green(
+                    options.once
+                        ? "Running one audit pass"
+                        : `Auditing every ${intervalMinutes} minutes`
+                )
+            )
+            console.log(
+                chalk.cyan(`  On edit: ${editAction}, on delete: ${deleteAction}`)
+            )
+
+            await auditor.start(
+                (summary) =>
+                    console.log(
+                        chalk.white(
+                            `[${new Date().toISOString()}] Audited ${summary.checked} posts: ` +
+                                `${summary.edited} edited, ${summary.deleted} deleted, ` +
+                                `${summary.actions} actions, ${summary.failed} failed`
+                        )
+                    ),
+                ({ post, entry }) => {
+                    if (!entry) return
+                    const color = entry.success ? chalk.yellow : chalk.red
+                    console.log(
+                        color(
+                            `  ${post.url} ${entry.finding} (${entry.detail}): ${entry.action}` +
+                                (entry.error ? ` failed: ${entry.error}` : "")
+                        )
+                    )
+                }
+            )
+
+            await database.close()
+        } catch (error: any) {
+            spinner.fail(chalk.red(`Error: ${error.message}`))
+            logger.error(`Audit command error: ${error}`)
+            process.exit(1)
+        }
+    })
+
 // Parse command line arguments
 program.parse()
@@ -0,0 +1,179 @@
+import sharp from "sharp"
+import { MEDIA_CONFIG, MediaMode, PostData } from "./config"
+import { getPlatformDisplayName } from "./extractors/registry"
+import { getFetcher } from "./utils/http-fetcher"
+import { logger } from "./utils/logger"
+
+export interface MediaAttachment {
+    data: Buffer
+    mimeType: string
+    kind: "thumbnail" | "card"
+    // Source image the attachment was made from
+    sourceUrl?: string | undefined
+}
+
+export interface CardDetails {
+    thumbnail?: Buffer | undefined
+    title: string
+    author?: string | undefined
+    platform: string
+    verifier: string
+}
+
+// Card colours
+const BACKGROUND = "#0f172a"
+const ACCENT = "#22c55e"
+const TEXT = "#f8fafc"
+const MUTED = "#94a3b8"
+
+/**
+ * Build the image to attach to a verification tweet: the source's image
+ * (og:image, video thumbnail) as-is, or a branded card around it
+ * Returns null when there is nothing to attach
+ */
+export async function prepareTweetMedia(
+    postData: PostData,
+    mode: MediaMode = MEDIA_CONFIG.MODE
+): Promise<MediaAttachment | null> {
+    if (mode === "none") {
+        return null
+    }
+
+    const sourceUrl = postData.metadata?.mediaUrls?.[0]
+    const image = sourceUrl ? await downloadImage(sourceUrl) : null
+
+    if (mode === "thumbnail") {
+        return image ? { ...image, kind: "thumbnail", sourceUrl } : null
+    }
+
+    // Cards are rendered even when the source has no usable image
+    const data = await renderVerificationCard({
+        thumbnail: image?.data,
+        title: postData.title || postData.url || "",
+        author: postData.author,
+        platform: getPlatformDisplayName(postData.platform || "website"),
+        verifier: postData.suremark_username || "suremark_user",
+    })
+    return {
+        data,
+        mimeType: "image/png",
+        kind: "card",
+        ...(image ? { sourceUrl } : {}),
+    }
+}
+
+/**
+ * Download a source image, re-encoding images over X's size limit
+ * Returns null (and logs) when the image cannot be used
+ */
+export async function downloadImage(
+    url: string
+): Promise<{ data: Buffer; mimeType: string } | null> {
+    try {
+        const response = await getFetcher().fetchBuffer(url, {
+            accept: "image",
+            robots: false,
+        })
+        if (response.data.length <= MEDIA_CONFIG.MAX_IMAGE_SIZE) {
+            return {
+                data: response.data,
+                mimeType: response.contentType.split(";")[0]!.trim().toLowerCase(),
+            }
+        }
+
+        const data = await sharp(response.data)
+            .resize({ width: 2048, height: 2048, fit: "inside", withoutEnlargement: true })
+            .jpeg({ quality: 85 })
+            .toBuffer()
+        return { data, mimeType: "image/jpeg" }
+    } catch (error: any) {
+        logger.warn(`Could not download image ${url}: ${error.message}`)
+        return null
+    }
+}
+
+/**
+ * Render a "Verified by SureMark" card: the thumbnail on the left, the
+ * title, author and verifier handle on the right (full width without a
+ * thumbnail)
+ */
+export async function renderVerificationCard(details: CardDetails): Promise<Buffer> {
+    const width = MEDIA_CONFIG.CARD_WIDTH
+    const height = MEDIA_CONFIG.CARD_HEIGHT
+    const imageWidth = details.thumbnail ? Math.round(width / 2) : 0
+    const left = imageWidth + 60
+    const textWidth = width - left - 60
+
+    const titleLines = wrapText(details.title, Math.floor(textWidth / 24), 5)
+    const byline = [details.author && `by ${details.author}`, details.platform]
+        .filter(Boolean)
+        .join(" · ")
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect width="100%" height="100%" fill="${BACKGROUND}"/>
+  <rect x="${imageWidth}" y="0" width="12" height="${height}" fill="${ACCENT}"/>
+  <text x="${left}" y="110" font-family="sans-serif" font-size="30" font-weight="bold" fill="${ACCENT}">✓ VERIFIED BY SUREMARK</text>
+  ${titleLines
+      .map(
+          (line, index) =>
+              `<text x="${left}" y="${200 + index * 58}" font-family="sans-serif" font-size="46" font-weight="bold" fill="${TEXT}">${escapeXml(line)}</text>`
+      )
+      .join("\n  ")}
+  <text x="${left}" y="${200 + titleLines.length * 58 + 20}" font-family="sans-serif" font-size="28" fill="${MUTED}">${escapeXml(byline)}</text>
+  <text x="${left}" y="${height - 90}" font-family="sans-serif" font-size="32" fill="${TEXT}">Verified by @${escapeXml(details.verifier)}</text>
+  <text x="${left}" y="${height - 45}" font-family="sans-serif" font-size="24" fill="${MUTED}">suremark.com</text>
+</svg>`
+
+    // The thumbnail goes over the SVG, whose background fills the card
+    const layers: sharp.OverlayOptions[] = [{ input: Buffer.from(svg), top: 0, left: 0 }]
+    if (details.thumbnail) {
+        layers.push({
+            input: await sharp(details.thumbnail)
+                .resize(imageWidth, height, { fit: "cover" })
+                .toBuffer(),
+            top: 0,
+            left: 0,
+        })
+    }
+
+    return sharp({
+        create: { width, height, channels: 3, background: BACKGROUND },
+    })
+        .composite(layers)
+        .png()
+        .toBuffer()
+}
+
+/**
+ * Split text into at most maxLines lines of about maxChars characters,
+ * ending with an ellipsis when it does not fit
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+    const lines: string[] = []
+    let line = ""
+
+    for (const word of text.replace(/\s+/g, " ").trim().split(" ")) {
+        const candidate = line ? `${line} ${word}` : word
+        if (candidate.length <= maxChars) {
+            line = candidate
+            continue
+        }
+        if (line) lines.push(line)
+        line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word
+        if (lines.length === maxLines) break
+    }
+    if (line && lines.length < maxLines) lines.push(line)
+
+    if (lines.length === maxLines && lines.join(" ").length < text.trim().length) {
+        lines[maxLines - 1] = `${lines[maxLines - 1]!.replace(/\s*\S*$/, "")}…`
+    }
+    return lines
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+}
@@ -0,0 +1,130 @@
+import { MonitorSubscription } from "./config"
+import { PostDatabase } from "./database"
+import { PostMonitor } from "./monitor"
+import { VerificationPipeline } from "./pipeline"
+import { XAPIClient } from "./x-api"
+
+const HOUR = 60 * 60 * 1000
+
+function subscription(overrides: Partial<MonitorSubscription> = {}): MonitorSubscription {
+    return {
+        _id: "sub_1",
+        type: "username",
+        target: "newsdesk",
+        intervalMinutes: 5,
+        active: true,
+        createdAt: new Date(Date.now() - HOUR),
+        ...overrides,
+    }
+}
+
+function setup(searchTweets: jest.Mock, verify: jest.Mock) {
+    const xClient = { searchTweets } as unknown as XAPIClient
+    const pipeline = { verify } as unknown as VerificationPipeline
+    const database = {
+        updateMonitorState: jest.fn().mockResolvedValue(undefined),
+    } as unknown as PostDatabase
+
+    const monitor = new PostMonitor(xClient, pipeline, database)
+    // poll() stops between posts once the monitor is stopped
+    ;(monitor as any).running = true
+    return { monitor, database }
+}
+
+describe("PostMonitor.poll", () => {
+    it("verifies posts made after an empty subscription was created", async () => {
+        const searchTweets = jest
+            .fn()
+            // Seeding search: nothing matches yet
+            .mockResolvedValueOnce({ success: true, tweets: [] })
+            .mockResolvedValue({
+                success: true,
+                tweets: [{ id: "1724000000000000002", author_username: "newsdesk" }],
+            })
+        const verify = jest.fn().mockResolvedValue({ status: "posted" })
+        const { monitor, database } = setup(searchTweets, verify)
+        const sub = subscription()
+
+        const result = await monitor.poll(sub)
+
+        expect(searchTweets.mock.calls[1]![4]).toEqual(sub.createdAt)
+        expect(result.processed).toBe(1)
+        expect(sub.lastSeenId).toBe("1724000000000000002")
+        expect(database.updateMonitorState).toHaveBeenCalledWith("sub_1", {
+            lastSeenId: "1724000000000000002",
+        })
+
+        // Later polls read on from the cursor instead of seeding again
+        await monitor.poll(sub)
+        expect(searchTweets.mock.calls[2]![2]).toBe("1724000000000000002")
+        expect(searchTweets.mock.calls[2]![4]).toBeUndefined()
+    })
+
+    it("keeps the creation time as the cursor while nothing matches", async () => {
+        const searchTweets = jest.fn().mockResolvedValue({ success: true, tweets: [] })
+        const { monitor } = setup(searchTweets, jest.fn())
+        const sub = subscription({ lastPolledAt: new Date(Date.now() - HOUR / 2) })
+
+        await monitor.poll(sub)
+
+        // No seeding search, which would skip the newest post
+        expect(searchTweets).toHaveBeenCalledTimes(1)
+        expect(searchTweets.mock.calls[0]![4]).toEqual(sub.createdAt)
+    })
+
+    it.each([
+        [
+            "an exhausted rate limit",
+            () =>
+                Promise.resolve({
+                    status: "failed",
+                    error: "Rate limit exceeded",
+                    result: { success: false, retry_after: 900 },
+                }),
+        ],
+        ["a thrown network error", () => Promise.reject(new Error("socket hang up"))],
+    ])("holds the cursor at %s", async (_, failure) => {
+        const searchTweets = jest.fn().mockResolvedValue({
+            success: true,
+            tweets: [
+                { id: "1724000000000000003", author_username: "newsdesk" },
+                { id: "1724000000000000002", author_username: "newsdesk" },
+                { id: "1724000000000000004", author_username: "newsdesk" },
+            ],
+        })
+        const verify = jest
+            .fn()
+            .mockResolvedValueOnce({ status: "posted" })
+            .mockImplementationOnce(failure)
+            .mockResolvedValue({ status: "posted" })
+        const { monitor } = setup(searchTweets, verify)
+        const sub = subscription({ lastSeenId: "1724000000000000001" })
+
+        const result = await monitor.poll(sub)
+
+        expect(verify).toHaveBeenCalledTimes(2)
+        expect(result).toMatchObject({ processed: 1, failed: 1 })
+        expect(sub.lastSeenId).toBe("1724000000000000002")
+    })
+
+    it("moves past posts refused for good", async () => {
+        const searchTweets = jest.fn().mockResolvedValue({
+            success: true,
+            tweets: [
+                { id: "1724000000000000002", author_username: "newsdesk" },
+                { id: "1724000000000000003", author_username: "newsdesk" },
+            ],
+        })
+        const verify = jest
+            .fn()
+            .mockResolvedValueOnce({ status: "failed", error: "No SureMark verification" })
+            .mockResolvedValue({ status: "posted" })
+        const { monitor } = setup(searchTweets, verify)
+        const sub = subscription({ lastSeenId: "1724000000000000001" })
+
+        await monitor.poll(sub)
+
+        expect(verify).toHaveBeenCalledTimes(2)
+        expect(sub.lastSeenId).toBe("1724000000000000003")
+    })
+})
@@ -0,0 +1,329 @@
+import { MonitorSubscription } from "./config"
+import { PostDatabase } from "./database"
+import { isRetryable, VerificationPipeline } from "./pipeline"
+import { logger } from "./utils/logger"
+import { XAPIClient } from "./x-api"
+
+export interface MonitorOptions {
+    dryRun?: boolean | undefined
+}
+
+export interface MonitorPollResult {
+    subscription: MonitorSubscription
+    found: number
+    processed: number
+    skipped: number
+    failed: number
+}
+
+// Upper bound on a single sleep so newly due subscriptions are not delayed
+const MAX_SLEEP_MS = 60 * 1000
+
+// X recent search only reaches back seven days (less a margin for clock skew)
+const SEARCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000 - 60 * 1000
+// Search results end 30 seconds ago; a later start time is rejected
+const SEARCH_LAG_MS = 30 * 1000
+
+/**
+ * Polls X search for new posts from monitored users and hashtags and runs
+ * each one through the verification pipeline. Cursors are persisted on the
+ * subscription so a restarted process picks up where it left off.
+ */
+export class PostMonitor {
+    private running = false
+    private wakeUp: (() => void) | null = null
+
+    constructor(
+        private xClient: XAPIClient,
+        private pipeline: VerificationPipeline,
+        private database: PostDatabase,
+        private options: MonitorOptions = {}
+    ) {}
+
+    /**
+     * Poll the given subscriptions on their own intervals until stop() is called
+     */
+    async start(
+        subscriptions: MonitorSubscription[],
+        onPoll?: (result: MonitorPollResult) => void
+    ): Promise<void> {
+        this.running = true
+        logger.info(`Monitoring started for ${subscriptions.length} subscriptions`)
+
+        while (this.running) {
+            const now = Date.now()
+
+            for (const subscription of subscriptions) {
+                if (!this.running) break
+                if (nextPollAt(subscription) > now) continue
+
+                try {
+                    const result = await this.poll(subscription)
+                    onPoll?.(result)
+                } catch (error: any) {
+                    logger.error(
+                        `Monitor poll failed for ${describeSubscription(subscription)}: ${error.message}`
+                    )
+                }
+            }
+
+            if (this.running) {
+                const nextDue = Math.min(
+                    ...subscriptions.map((subscription) =>
+                        nextPollAt(subscription)
+                    )
+                )
+                await this.sleep(
+                    Math.min(Math.max(nextDue - Date.now(), 0), MAX_SLEEP_MS)
+                )
+            }
+        }
+
+        logger.info("Monitoring stopped")
+    }
+
+    /**
+     * Stop polling; an in-progress post is allowed to finish
+     */
+    stop(): void {
+        this.running = false
+        this.wakeUp?.()
+    }
+
+    /**
+     * Fetch posts newer than the subscription's cursor and process them
+     * oldest first, persisting the cursor after each one. The first poll
+     * only seeds the cursor with the newest match, so history is never
+     * tweeted; until a post is seen, the subscription's creation time is
+     * the cursor. A post that fails with a retryable error holds the cursor
+     * so the next poll tries it again.
+     */
+    async poll(subscription: MonitorSubscription): Promise<MonitorPollResult> {
+        const result: MonitorPollResult = {
+            subscription,
+            found: 0,
+            processed: 0,
+            skipped: 0,
+            failed: 0,
+        }
+
+        try {
+            if (!subscription.lastSeenId && !subscription.lastPolledAt) {
+                await this.seedCursor(subscription)
+            }
+
+            const tweets = await this.fetchNewTweets(subscription)
+            result.found = tweets.length
+
+            for (const tweet of tweets) {
+                if (!this.running) break
+
+                const username =
+                    tweet.author_username ||
+                    (subscription.type === "username"
+                        ? subscription.target
+                        : "i")
+                const url = `https://x.com/${username}/status/${tweet.id}`
+                // Unexpected errors (database, SureMark backend, network) may clear up
+                let retryable = true
+
+                try {
+                    const outcome = await this.pipeline.verify(url, {
+                        username:
+                            subscription.suremarkUsername ||
+                            (subscription.type === "username"
+                                ? subscription.target
+                                : undefined),
+                        dryRun: this.options.dryRun,
+                        account: subscription.account,
+                    })
+
+                    if (outcome.status === "skipped") {
+                        result.skipped++
+                    } else if (outcome.status === "failed") {
+                        result.failed++
+                    } else {
+                        result.processed++
+                    }
+                    retryable = outcome.status === "failed" && isRetryable(outcome)
+                } catch (error: any) {
+                    result.failed++
+                    logger.error(`Error processing ${url}: ${error.message}`)
+                }
+
+                if (retryable) {
+                    logger.warn(
+                        `Monitor cursor for ${describeSubscription(subscription)} stays before ${url}; it is retried on the next poll`
+                    )
+                    break
+                }
+
+                subscription.lastSeenId = tweet.id
+                await this.saveState(subscription, { lastSeenId: tweet.id })
+            }
+
+            subscription.lastPolledAt = new Date()
+            subscription.lastError = undefined
+            await this.saveState(subscription, {
+                lastPolledAt: subscription.lastPolledAt,
+                lastError: undefined,
+            })
+        } catch (error: any) {
+            subscription.lastPolledAt = new Date()
+            subscription.lastError = error.message
+            await this.saveState(subscription, {
+                lastPolledAt: subscription.lastPolledAt,
+                lastError: error.message,
+            })
+            throw error
+        }
+
+        return result
+    }
+
+    /**
+     * Start the cursor at the newest current match without processing it;
+     * with no match yet the cursor stays at the subscription's creation time
+     */
+    private async seedCursor(subscription: MonitorSubscription): Promise<void> {
+        const search = await this.xClient.searchTweets(buildSearchQuery(subscription))
+        if (!search.success) {
+            throw new Error(search.error || "Search failed")
+        }
+
+        const newest = (search.tweets || [])
+            .map((tweet) => String(tweet.id))
+            .sort(compareTweetIds)
+            .pop()
+        if (!newest) {
+            logger.info(
+                `No posts match ${describeSubscription(subscription)} yet; posts from its creation on are verified`
+            )
+            return
+        }
+
+        logger.info(
+            `Monitor cursor for ${describeSubscription(subscription)} starts at ${newest}; earlier posts are not verified`
+        )
+        subscription.lastSeenId = newest
+        await this.saveState(subscription, { lastSeenId: newest })
+    }
+
+    /**
+     * Every post newer than the cursor, oldest first: search returns pages
+     * newest first, so all pages are fetched before any post is processed
+     */
+    private async fetchNewTweets(subscription: MonitorSubscription): Promise<any[]> {
+        const sinceId = subscription.lastSeenId
+        // Without a seen post, everything since the subscription was created
+        // (as far back as search reaches)
+        const startTime = sinceId
+            ? undefined
+            : new Date(
+                  Math.max(subscription.createdAt.getTime(), Date.now() - SEARCH_WINDOW_MS)
+              )
+        if (startTime && startTime.getTime() > Date.now() - SEARCH_LAG_MS) {
+            return []
+        }
+
+        const tweets: any[] = []
+        let nextToken: string | undefined
+
+        do {
+            const page = await this.xClient.searchTweets(
+                buildSearchQuery(subscription),
+                100,
+                sinceId,
+                nextToken,
+                startTime
+            )
+            if (!page.success) {
+                throw new Error(page.error || "Search failed")
+            }
+            tweets.push(...(page.tweets || []))
+            nextToken = page.nextToken
+        } while (nextToken)
+
+        return tweets.sort((a, b) => compareTweetIds(a.id, b.id))
+    }
+
+    /**
+     * Persist subscription state; dry runs leave the stored cursor untouched
+     */
+    private async saveState(
+        subscription: MonitorSubscription,
+        state: Parameters<PostDatabase["updateMonitorState"]>[1]
+    ): Promise<void> {
+        if (this.options.dryRun || !subscription._id) return
+        await this.database.updateMonitorState(subscription._id, state)
+    }
+
+    /**
+     * Sleep that can be interrupted by stop()
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.wakeUp = null
+                resolve()
+            }, ms)
+            this.wakeUp = () => {
+                clearTimeout(timer)
+                this.wakeUp = null
+                resolve()
+            }
+        })
+    }
+}
+
+/**
+ * Parse a monitor target given as "@user", "#tag" or a bare username
+ */
+export function parseMonitorTarget(
+    input: string
+): Pick<MonitorSubscription, "type" | "target"> {
+    const value = input.trim()
+    if (value.startsWith("#")) {
+        return { type: "hashtag", target: value.slice(1).toLowerCase() }
+    }
+    return { type: "username", target: value.replace(/^@/, "").toLowerCase() }
+}
+
+/**
+ * Build the X search query for a subscription
+ */
+export function buildSearchQuery(subscription: MonitorSubscription): string {
+    return subscription.type === "username"
+        ? `from:${subscription.target}`
+        : `#${subscription.target}`
+}
+
+/**
+ * Human-readable form of a subscription target
+ */
+export function describeSubscription(
+    subscription: Pick<MonitorSubscription, "type" | "target">
+): string {
+    return subscription.type === "username"
+        ? `@${subscription.target}`
+        : `#${subscription.target}`
+}
+
+/**
+ * When a subscription is next due for a poll (epoch ms)
+ */
+function nextPollAt(subscription: MonitorSubscription): number {
+    if (!subscription.lastPolledAt) return 0
+    return (
+        subscription.lastPolledAt.getTime() +
+        subscription.intervalMinutes * 60 * 1000
+    )
+}
+
+/**
+ * Compare two tweet IDs numerically (they exceed Number.MAX_SAFE_INTEGER)
+ */
+export function compareTweetIds(a: string, b: string): number {
+    const diff = BigInt(a) - BigInt(b)
+    return diff === 0n ? 0 : diff > 0n ? 1 : -1
+}
@@ -0,0 +1,152 @@
+import crypto from "crypto"
+import http from "http"
+import { IParsedOAuth2TokenResult, TwitterApi } from "twitter-api-v2"
+import { OAUTH_CONFIG, OAuthToken } from "./config"
+import { logger } from "./utils/logger"
+
+export interface LoginOptions {
+    // Local port for the callback server (defaults to OAUTH_CONFIG.CALLBACK_PORT)
+    port?: number | undefined
+    // Called with the URL the user has to open to authorize the app
+    onAuthorizeUrl: (url: string) => void
+}
+
+/**
+ * Run the OAuth 2.0 Authorization Code + PKCE flow: the user authorizes the
+ * app in a browser, X redirects back to a short-lived local server with the
+ * code, and the code is exchanged (with the PKCE verifier) for tokens
+ */
+export async function loginWithPkce(options: LoginOptions): Promise<OAuthToken> {
+    const port = options.port ?? OAUTH_CONFIG.CALLBACK_PORT
+    const redirectUri = `http://127.0.0.1:${port}${OAUTH_CONFIG.CALLBACK_PATH}`
+    const client = oauthClient()
+
+    const { url, state, codeVerifier } = client.generateOAuth2AuthLink(redirectUri, {
+        scope: OAUTH_CONFIG.SCOPES,
+        state: crypto.randomBytes(16).toString("hex"),
+    })
+
+    const code = await waitForCallback(port, state, () => options.onAuthorizeUrl(url))
+    const result = await client.loginWithOAuth2({ code, codeVerifier, redirectUri })
+
+    // Record who authorized the app, so status shows the handle
+    const me = await result.client.v2.me()
+    logger.info(`OAuth 2.0 login completed for @${me.data.username}`)
+    return toToken(result, { userId: me.data.id, username: me.data.username })
+}
+
+/**
+ * Exchange a token's refresh token for a new access token; X rotates the
+ * refresh token too, so the returned token must replace the stored one
+ */
+export async function refreshAccessToken(token: OAuthToken): Promise<OAuthToken> {
+    if (!token.refreshToken) {
+        throw new Error("OAuth 2.0 token expired and has no refresh token; run `auth login` again")
+    }
+
+    const result = await oauthClient().refreshOAuth2Token(token.refreshToken)
+    return toToken(result, { userId: token.userId, username: token.username })
+}
+
+/**
+ * Revoke a token at X, refresh token first (which also ends the access token)
+ */
+export async function revokeToken(token: OAuthToken): Promise<void> {
+    const client = oauthClient()
+    if (token.refreshToken) {
+        await client.revokeOAuth2Token(token.refreshToken, "refresh_token")
+    }
+    await client.revokeOAuth2Token(token.accessToken, "access_token")
+}
+
+/**
+ * Check that the app's OAuth 2.0 client ID is configured
+ */
+export function validateOAuthConfig(): boolean {
+    return OAUTH_CONFIG.CLIENT_ID.length > 0
+}
+
+function oauthClient(): TwitterApi {
+    if (!validateOAuthConfig()) {
+        throw new Error("TWITTER_CLIENT_ID is required for OAuth 2.0 login")
+    }
+    return new TwitterApi(
+        OAUTH_CONFIG.CLIENT_SECRET
+            ? { clientId: OAUTH_CONFIG.CLIENT_ID, clientSecret: OAUTH_CONFIG.CLIENT_SECRET }
+            : { clientId: OAUTH_CONFIG.CLIENT_ID }
+    )
+}
+
+function toToken(
+    result: Omit<IParsedOAuth2TokenResult, "client">,
+    user: { userId?: string | undefined; username?: string | undefined }
+): OAuthToken {
+    const now = new Date()
+    return {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        expiresAt: new Date(now.getTime() + result.expiresIn * 1000),
+        scopes: result.scope,
+        userId: user.userId,
+        username: user.username,
+        obtainedAt: now,
+    }
+}
+
+/**
+ * Serve the callback URL on 127.0.0.1 until X redirects back with the
+ * authorization code for this login's state, or the login times out
+ */
+function waitForCallback(
+    port: number,
+    state: string,
+    onListening: () => void
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const finish = (error: Error | null, code?: string) => {
+            clearTimeout(timer)
+            server.close()
+            if (error) reject(error)
+            else resolve(code!)
+        }
+
+        const server = http.createServer((request, response) => {
+            const url = new URL(request.url ?? "/", `http://127.0.0.1:${port}`)
+            if (url.pathname !== OAUTH_CONFIG.CALLBACK_PATH) {
+                response.writeHead(404).end()
+                return
+            }
+
+            // Ignore stray requests rather than failing the login
+            if (url.searchParams.get("state") !== state) {
+                response.writeHead(400, { "Content-Type": "text/plain" })
+                response.end("Invalid state. Start the login again from the bot.")
+                return
+            }
+
+            const error = url.searchParams.get("error")
+            const code = url.searchParams.get("code")
+            response.writeHead(error || !code ? 400 : 200, { "Content-Type": "text/plain" })
+            response.end(
+                error || !code
+                    ? "Authorization failed. You can close this window."
+                    : "Authorization complete. You can close this window and return to the terminal."
+            )
+
+            if (error || !code) {
+                const description = url.searchParams.get("error_description")
+                finish(new Error(`Authorization failed: ${description ?? error ?? "no code returned"}`))
+            } else {
+                finish(null, code)
+            }
+        })
+
+        const timer = setTimeout(
+            () => finish(new Error("Timed out waiting for authorization")),
+            OAUTH_CONFIG.LOGIN_TIMEOUT * 1000
+        )
+
+        server.on("error", (error) => finish(error))
+        server.listen(port, "127.0.0.1", onListening)
+    })
+}
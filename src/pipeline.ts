@@ -0,0 +1,473 @@
+import { XAccountPool } from "./accounts"
+import {
+    BOT_CONFIG,
+    ERROR_MESSAGES,
+    EXTRACTION_CONFIG,
+    ExtractionPolicy,
+    MediaMode,
+    PostData,
+    PROCESSING_CONFIG,
+    ProcessedPost,
+    TweetMedia,
+    TweetMode,
+    TweetResult,
+    VerificationRecord,
+} from "./config"
+import { PostDatabase } from "./database"
+import { SourceUnavailableError } from "./extractors/liveness"
+import { prepareTweetMedia } from "./media"
+import { PostProcessor } from "./post-processor"
+import { PostingQueue } from "./posting-queue"
+import { SureMarkClient } from "./suremark-client"
+import { splitIntoThread, ThreadPoster } from "./thread"
+import { canonicalizeUrl, resolveShortLink } from "./utils/canonical-url"
+import { logger } from "./utils/logger"
+import { XAPIClient } from "./x-api"
+
+export interface VerificationOptions {
+    username?: string | undefined
+    platform?: string | undefined
+    message?: string | undefined
+    template?: string | undefined
+    dryRun?: boolean | undefined
+    // Defaults to BOT_CONFIG.TWEET_MODE
+    mode?: TweetMode | undefined
+    // Defaults to EXTRACTION_CONFIG.POLICY
+    extractionPolicy?: ExtractionPolicy | undefined
+    // Defaults to MEDIA_CONFIG.MODE
+    media?: MediaMode | undefined
+    // Post long messages as a thread (defaults to BOT_CONFIG.TWEET_THREAD)
+    thread?: boolean | undefined
+    // Post from this account instead of the routed one
+    account?: string | undefined
+    // Tweets an earlier attempt's failed thread left posted; deleted before
+    // posting again
+    partialThreadIds?: string[] | undefined
+}
+
+export interface VerificationOutcome {
+    status: "posted" | "dry_run" | "skipped" | "failed"
+    url: string
+    postData?: PostData
+    message?: string
+    // Every tweet of the message when it is posted as a thread
+    thread?: string[]
+    mode?: TweetMode
+    parentId?: string
+    // Account the tweet was (or would be) posted from
+    account?: string
+    result?: TweetResult
+    // Set once earlier partial threads were cleaned up: tweets of a failed
+    // thread that are still posted
+    partialThreadIds?: string[]
+    verification?: VerificationRecord
+    media?: TweetMedia
+    error?: string
+}
+
+/**
+ * Runs a single URL through the PostProcessor -> XAPIClient -> PostDatabase
+ * flow shared by the tweet, batch and monitor commands
+ * Tweets go out from the account the post is routed to; xClient and
+ * postingQueue serve its own account
+ */
+export class VerificationPipeline {
+    constructor(
+        xClient: XAPIClient,
+        private postProcessor: PostProcessor,
+        private database: PostDatabase,
+        postingQueue: PostingQueue = new PostingQueue(),
+        private suremark: SureMarkClient = new SureMarkClient(),
+        private accounts: XAccountPool = new XAccountPool()
+    ) {
+        this.accounts.add(xClient, postingQueue)
+    }
+
+    /**
+     * Verify a URL and post (or dry-run) the verification tweet
+     */
+    async verify(
+        url: string,
+        options: VerificationOptions = {},
+        onProgress?: (text: string) => void
+    ): Promise<VerificationOutcome> {
+        // Check if post already processed; a short link stands for the post
+        // it points at, which is what gets extracted, checked and stored
+        onProgress?.("Checking if post already processed...")
+        const sourceUrl = await resolveShortLink(url)
+        const canonicalKey = canonicalizeUrl(sourceUrl)
+        const isProcessed = await this.database.isPostProcessed(canonicalKey)
+        if (isProcessed) {
+            return {
+                status: "skipped",
+                url,
+                error: ERROR_MESSAGES.DUPLICATE_POST,
+            }
+        }
+
+        // Process the post; dead sources are refused and recorded as failed
+        onProgress?.("Extracting content from post...")
+        let postData: PostData
+        try {
+            postData = await this.postProcessor.processUrl(
+                sourceUrl,
+                options.username,
+                options.platform
+            )
+        } catch (error) {
+            if (!(error instanceof SourceUnavailableError)) {
+                throw error
+            }
+            return this.refuseUnavailable(sourceUrl, canonicalKey, options, error)
+        }
+
+        // Check if required data is available
+        if (!postData.platform || !postData.url) {
+            throw new Error(
+                "Failed to extract required platform or URL information"
+            )
+        }
+
+        // Refuse posts whose content could not be read well enough
+        const refusal = this.checkExtraction(
+            postData,
+            options.extractionPolicy ?? EXTRACTION_CONFIG.POLICY
+        )
+        if (refusal) {
+            return { status: "failed", url, postData, error: refusal }
+        }
+
+        // Only tweet posts a SureMark user actually verified
+        onProgress?.("Looking up SureMark verification...")
+        const verification = await this.suremark.findVerification(
+            sourceUrl,
+            postData.content
+        )
+        if (!verification) {
+            return {
+                status: "failed",
+                url,
+                postData,
+                error: ERROR_MESSAGES.NOT_VERIFIED,
+            }
+        }
+        if (
+            postData.suremark_username &&
+            postData.suremark_username !== verification.username
+        ) {
+            logger.warn(
+                `${url} was verified by @${verification.username}, not @${postData.suremark_username}; crediting @${verification.username}`
+            )
+        }
+        postData.suremark_username = verification.username
+
+        // Generate verification message, split into a thread when it is
+        // too long for one tweet and threads are enabled
+        const tweets = (options.thread ?? BOT_CONFIG.TWEET_THREAD)
+            ? splitIntoThread(
+                  this.postProcessor.generateThreadMessage(
+                      postData,
+                      BOT_CONFIG.SURMARK_DASHBOARD_URL,
+                      options.message,
+                      options.template
+                  )
+              )
+            : [
+                  this.postProcessor.generateVerificationMessage(
+                      postData,
+                      BOT_CONFIG.SURMARK_DASHBOARD_URL,
+                      options.message,
+                      options.template
+                  ),
+              ]
+        const message = tweets[0]!
+        const thread = tweets.length > 1 ? { thread: tweets } : {}
+        if (tweets.length > PROCESSING_CONFIG.MAX_THREAD_LENGTH) {
+            return {
+                status: "failed",
+                url,
+                postData,
+                message,
+                ...thread,
+                verification,
+                error: ERROR_MESSAGES.THREAD_TOO_LONG,
+            }
+        }
+
+        const account = options.account ?? this.accounts.route(postData)
+        const record: ProcessedPost = {
+            ...this.toProcessedPost(postData, canonicalKey),
+            verificationId: verification.verificationId,
+            account,
+        }
+        const { mode, parentId } = this.resolveTweetMode(
+            postData,
+            options.mode ?? BOT_CONFIG.TWEET_MODE
+        )
+        const target = parentId ? { mode, parentId, account } : { mode, account }
+
+        if (options.dryRun) {
+            // For dry run, save as processed but not successful
+            await this.database.saveProcessedPost({ ...record, success: false })
+            return {
+                status: "dry_run",
+                url,
+                postData,
+                message,
+                ...thread,
+                ...target,
+                verification,
+            }
+        }
+
+        const xClient = this.accounts.client(account)
+        const postingQueue = this.accounts.queue(account)
+        const threadPoster = new ThreadPoster(xClient, postingQueue)
+
+        // Remove what an earlier attempt's failed rollback left posted
+        if (options.partialThreadIds?.length) {
+            onProgress?.("Deleting tweets left by an earlier attempt...")
+            const remaining = await threadPoster.deleteTweets(options.partialThreadIds)
+            if (remaining.length > 0) {
+                const error = `Could not delete ${remaining.join(", ")} left by an earlier attempt`
+                return {
+                    status: "failed",
+                    url,
+                    postData,
+                    message,
+                    ...thread,
+                    ...target,
+                    result: { success: false, error, retryable: true },
+                    partialThreadIds: remaining,
+                    verification,
+                    error,
+                }
+            }
+        }
+
+        // Attach the source image or verification card, if any
+        onProgress?.("Preparing media...")
+        const media = await this.uploadMedia(xClient, postData, options.media)
+        const mediaIds = media ? [media.id] : undefined
+        if (media) {
+            record.media = media
+        }
+
+        // Post tweet (or thread, the rest replying under the first tweet)
+        onProgress?.(
+            tweets.length > 1
+                ? `Posting verification thread (${tweets.length} tweets)...`
+                : "Posting verification tweet..."
+        )
+        const result = await threadPoster.post(
+            tweets,
+            (text) =>
+                postingQueue.run(mode === "reply" ? "REPLIES" : "TWEETS", () =>
+                    mode === "reply"
+                        ? xClient.replyToTweet(parentId!, text, mediaIds)
+                        : mode === "quote"
+                          ? xClient.quoteTweet(parentId!, text, mediaIds)
+                          : xClient.postTweet(text, undefined, undefined, mediaIds)
+                )
+        )
+
+        if (!result.success) {
+            logger.error(`Failed to tweet for ${url} from ${account}: ${result.error}`)
+            return {
+                status: "failed",
+                url,
+                postData,
+                message,
+                ...thread,
+                ...target,
+                result,
+                partialThreadIds: result.thread_ids,
+                verification,
+                error: result.error ?? "Unknown X API error",
+            }
+        }
+
+        // Save to database only after successful tweet posting
+        await this.database.saveSuccessfulPost(
+            record,
+            result.tweet_id!,
+            result.tweet_url!,
+            mode,
+            parentId,
+            tweets.length > 1 ? result.thread_ids : undefined
+        )
+
+        return {
+            status: "posted",
+            url,
+            postData,
+            message,
+            ...thread,
+            ...target,
+            result,
+            verification,
+            ...(media ? { media } : {}),
+        }
+    }
+
+    /**
+     * Prepare and upload the tweet's image; media is best-effort, so the
+     * tweet goes out without it when either step fails
+     */
+    private async uploadMedia(
+        xClient: XAPIClient,
+        postData: PostData,
+        mode?: MediaMode
+    ): Promise<TweetMedia | undefined> {
+        try {
+            const attachment = await prepareTweetMedia(postData, mode)
+            if (!attachment) {
+                return undefined
+            }
+
+            const upload = await xClient.uploadMedia(
+                attachment.data,
+                attachment.mimeType
+            )
+            if (!upload.success || !upload.mediaId) {
+                logger.warn(`Posting ${postData.url} without media: ${upload.error}`)
+                return undefined
+            }
+
+            return {
+                id: upload.mediaId,
+                kind: attachment.kind,
+                sourceUrl: attachment.sourceUrl,
+            }
+        } catch (error: any) {
+            logger.warn(`Posting ${postData.url} without media: ${error.message}`)
+            return undefined
+        }
+    }
+
+    /**
+     * Record a source that failed the liveness check and refuse it
+     */
+    private async refuseUnavailable(
+        url: string,
+        canonicalKey: string,
+        options: VerificationOptions,
+        error: SourceUnavailableError
+    ): Promise<VerificationOutcome> {
+        await this.database.saveProcessedPost({
+            url,
+            canonicalKey,
+            platform: error.platform,
+            processedAt: new Date(),
+            suremarkUsername: options.username,
+            success: false,
+            failure: { reason: error.reason, message: error.message },
+        })
+
+        return {
+            status: "failed",
+            url,
+            error: `${ERROR_MESSAGES.SOURCE_UNAVAILABLE} ${error.message} (${error.reason})`,
+        }
+    }
+
+    /**
+     * Apply the extraction policy; returns why the post is refused, if it is
+     */
+    private checkExtraction(
+        postData: PostData,
+        policy: ExtractionPolicy
+    ): string | null {
+        const report = postData.extraction
+        if (!report || report.status === "ok") {
+            return null
+        }
+
+        const detail =
+            report.status === "failed"
+                ? `${ERROR_MESSAGES.CONTENT_EXTRACTION_FAILED} (${report.error})`
+                : `Content extraction incomplete: missing ${report.missing.join(", ")}`
+
+        if (policy === "strict" || (report.status === "failed" && policy === "warn")) {
+            return detail
+        }
+
+        logger.warn(`${detail} for ${postData.url}; continuing (${policy} policy)`)
+        return null
+    }
+
+    /**
+     * Reply and quote modes need a source tweet to attach to; other sources
+     * fall back to a standalone tweet
+     */
+    private resolveTweetMode(
+        postData: PostData,
+        requested: TweetMode
+    ): { mode: TweetMode; parentId?: string } {
+        if (requested === "standalone") {
+            return { mode: "standalone" }
+        }
+
+        const parentId =
+            postData.platform === "twitter"
+                ? this.postProcessor.extractTweetId(postData.url!)
+                : null
+        if (!parentId) {
+            logger.warn(
+                `Cannot ${requested} to ${postData.url}: not an X/Twitter post, posting standalone`
+            )
+            return { mode: "standalone" }
+        }
+
+        return { mode: requested, parentId }
+    }
+
+    /**
+     * Map extracted post data onto the database record shape
+     */
+    private toProcessedPost(
+        postData: PostData,
+        canonicalKey: string
+    ): ProcessedPost {
+        return {
+            url: postData.url!,
+            canonicalKey,
+            platform: postData.platform!,
+            processedAt: new Date(),
+            suremarkUsername: postData.suremark_username || undefined,
+            title: postData.title || undefined,
+            content: postData.content || undefined,
+            author: postData.author || undefined,
+            metadata: postData.metadata,
+            extraction: postData.extraction,
+            fingerprint: postData.fingerprint,
+        }
+    }
+}
+
+/**
+ * Whether a failed verification may succeed on a later attempt: only
+ * posting errors X reports as transient (rate limits, server and network
+ * errors) are. Refusals such as a missing SureMark verification, the
+ * extraction policy, a dead source or an over-long message are final.
+ */
+export function isRetryable(outcome: VerificationOutcome): boolean {
+    const result = outcome.result
+    return !!result && (result.retryable === true || result.retry_after !== undefined)
+}
+
+/**
+ * Tweets still left posted by failed threads after an attempt, given the
+ * ones left before it: the outcome's own once the pipeline cleaned up,
+ * otherwise the earlier ones are still there
+ */
+export function remainingPartialThread(
+    outcome: VerificationOutcome | undefined,
+    previous: string[] | undefined
+): string[] | undefined {
+    if (outcome?.status === "posted") {
+        return undefined
+    }
+    const tweetIds = outcome?.partialThreadIds ?? previous
+    return tweetIds?.length ? tweetIds : undefined
+}
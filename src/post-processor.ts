@@ -1,22 +1,47 @@
-import axios from "axios"
-import * as cheerio from "cheerio"
 import {
-    CONTENT_CONFIG,
     ERROR_MESSAGES,
-    MESSAGE_TEMPLATES,
+    ExtractedContent,
+    EXTRACTION_CONFIG,
+    ExtractionResult,
+    ExtractionStatus,
     PostData,
-    SUCCESS_MESSAGES,
-    SUPPORTED_PLATFORMS,
+    PROCESSING_CONFIG,
 } from "./config"
+import { SourceUnavailableError } from "./extractors/liveness"
+import {
+    getExtractorRegistry,
+    getPlatformDisplayName,
+} from "./extractors/registry"
+import { PlatformExtractor } from "./extractors/types"
+import { extractTweetId } from "./extractors/twitter"
+import { getTemplateRegistry, renderTemplate, validateTemplateBody } from "./templates"
+import { fingerprintContent } from "./utils/fingerprint"
 import { logger } from "./utils/logger"
+import {
+    fitsInTweet,
+    getTweetLength,
+    truncateToTweetLength,
+} from "./utils/tweet-length"
+import { XAPIClient } from "./x-api"
+
+export interface ProcessOptions {
+    // false to re-fetch every page instead of using cached responses, so a
+    // recheck sees the post as it is now
+    cache?: boolean | undefined
+}
 
 export class PostProcessor {
+    constructor(private xClient?: XAPIClient) {}
+
     /**
      * Process a URL and extract relevant information
+     * Throws a SourceUnavailableError when the post is no longer live
      */
     async processUrl(
         url: string,
-        suremarkUsername?: string
+        suremarkUsername?: string,
+        platformOverride?: string,
+        options: ProcessOptions = {}
     ): Promise<PostData> {
         try {
             // Validate URL
@@ -24,11 +49,13 @@ export class PostProcessor {
                 throw new Error(ERROR_MESSAGES.INVALID_URL)
             }
 
-            // Detect platform
-            const platform = this.detectPlatform(url)
+            await this.checkLiveness(url, platformOverride)
 
-            // Extract content based on platform
-            const content = await this.extractContent(url, platform)
+            const { report, platform, content } = await this.extract(
+                url,
+                platformOverride,
+                options
+            )
 
             return {
                 url,
@@ -38,6 +65,12 @@ export class PostProcessor {
                 author: content.author ?? undefined,
                 timestamp: content.timestamp ?? undefined,
                 suremark_username: suremarkUsername ?? undefined,
+                metadata: content.metadata ?? undefined,
+                extraction: report,
+                fingerprint:
+                    report.status === "failed"
+                        ? undefined
+                        : fingerprintContent(content),
             }
         } catch (error: any) {
             logger.error(`Error processing URL ${url}: ${error.message}`)
@@ -46,316 +79,96 @@ export class PostProcessor {
     }
 
     /**
-     * Detect platform from URL
+     * Run the platform's liveness check before extraction
+     * Throws a SourceUnavailableError for dead sources; failures of the check
+     * itself are logged and leave the extraction to report them
      */
-    private detectPlatform(url: string): string {
-        const urlObj = new URL(url)
-        const hostname = urlObj.hostname.toLowerCase()
-
-        // Check for exact matches
-        for (const [domain, platform] of Object.entries(SUPPORTED_PLATFORMS)) {
-            if (hostname.includes(domain)) {
-                return platform
-            }
+    async checkLiveness(url: string, platformOverride?: string): Promise<void> {
+        const extractor = this.resolveExtractor(url, platformOverride)
+        if (!extractor.checkLiveness) {
+            return
         }
 
-        // Default to website for unknown platforms
-        return "website"
-    }
-
-    /**
-     * Extract content from URL based on platform
-     */
-    private async extractContent(
-        url: string,
-        platform: string
-    ): Promise<{
-        title?: string
-        content?: string
-        author?: string
-        timestamp?: Date
-    }> {
-        switch (platform) {
-            case "twitter":
-                return this.extractTwitterContent(url)
-            case "instagram":
-                return this.extractInstagramContent(url)
-            case "youtube":
-                return this.extractYouTubeContent(url)
-            default:
-                return this.extractWebsiteContent(url)
-        }
-    }
-
-    /**
-     * Extract content from Twitter/X posts
-     * Note: For now, returns generic content since X API content extraction 
-     * requires additional setup. This can be enhanced later.
-     */
-    private async extractTwitterContent(url: string): Promise<{
-        title?: string
-        content?: string
-        author?: string
-        timestamp?: Date
-    }> {
         try {
-            // Extract tweet ID from URL
-            const tweetId = this.extractTweetId(url)
-            if (!tweetId) {
-                throw new Error("Could not extract tweet ID from URL")
-            }
-
-            // For now, return generic content with the tweet ID
-            // TODO: Implement X API tweet lookup when needed
-            const result: {
-                title?: string
-                content?: string
-                author?: string
-                timestamp?: Date
-            } = {
-                title: "X/Twitter Post",
-                content: `Post from X/Twitter (ID: ${tweetId})`,
-                timestamp: new Date(),
-            }
-            
-            return result
+            await extractor.checkLiveness(url, { xClient: this.xClient })
         } catch (error: any) {
-            logger.warn(`Failed to extract Twitter content:`, {
-                message: error.message,
-                url: url
-            })
-            return {
-                title: "X/Twitter Post",
-                content: "Verified content from X/Twitter",
-                timestamp: new Date(),
+            if (error instanceof SourceUnavailableError) {
+                throw error
             }
+            logger.warn(`Liveness check failed for ${url}: ${error.message}`)
         }
     }
 
     /**
-     * Extract tweet ID from Twitter/X URL
+     * Run the platform's extractor and report which fields it found
+     * Extractor errors are reported as a failed extraction, never replaced
+     * with placeholder content
      */
-    private extractTweetId(url: string): string | null {
-        try {
-            const urlObj = new URL(url)
-            const pathParts = urlObj.pathname.split('/')
-            const statusIndex = pathParts.indexOf('status')
-            
-            if (statusIndex !== -1 && statusIndex + 1 < pathParts.length) {
-                const tweetId = pathParts[statusIndex + 1]
-                return tweetId || null
-            }
-            
-            return null
-        } catch {
-            return null
-        }
-    }
+    async extract(
+        url: string,
+        platformOverride?: string,
+        options: ProcessOptions = {}
+    ): Promise<ExtractionResult> {
+        const extractor = this.resolveExtractor(url, platformOverride)
 
-    /**
-     * Extract content from Instagram posts
-     */
-    private async extractInstagramContent(url: string): Promise<{
-        title?: string
-        content?: string
-        author?: string
-        timestamp?: Date
-    }> {
+        let content: ExtractedContent = {}
+        let error: string | undefined
         try {
-            const response = await axios.get(url, {
-                headers: {
-                    "User-Agent":
-                        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-                },
-                timeout: 10000,
+            // The extractor may classify the page more precisely
+            // (e.g. website -> article)
+            content = await extractor.extract(url, {
+                xClient: this.xClient,
+                cache: options.cache,
             })
+        } catch (caught: any) {
+            error = caught.message
+            logger.warn(`Failed to extract ${extractor.platform} content from ${url}: ${error}`)
+        }
 
-            const $ = cheerio.load(response.data)
-
-            // Extract Instagram post content
-            const content =
-                $('meta[property="og:description"]').attr("content") ||
-                $(".caption").text() ||
-                $('[data-testid="post-caption"]').text()
-
-            // Extract author
-            const author =
-                $('meta[property="og:title"]')
-                    .attr("content")
-                    ?.split(" on Instagram")[0] || $(".username").text()
+        const found = [
+            content.title && "title",
+            content.content && "content",
+            content.author && "author",
+            content.timestamp && "timestamp",
+            content.metadata?.mediaUrls?.length && "media",
+        ].filter((field): field is string => typeof field === "string")
+        const missing = EXTRACTION_CONFIG.EXPECTED_FIELDS.filter(
+            (field) => !found.includes(field)
+        )
+
+        let status: ExtractionStatus = "ok"
+        if (error || missing.length === EXTRACTION_CONFIG.EXPECTED_FIELDS.length) {
+            status = "failed"
+            error = error || "No content found on the page"
+        } else if (missing.length > 0) {
+            status = "partial"
+        }
 
-            const result: {
-                title?: string
-                content?: string
-                author?: string
-                timestamp?: Date
-            } = {
-                title: `Instagram Post by ${author ?? ""}`,
-                timestamp: new Date(),
-            }
-            
-            if (content) {
-                result.content = content.substring(
-                    0,
-                    CONTENT_CONFIG.MAX_CONTENT_LENGTH
-                )
-            }
-            
-            if (author) {
-                result.author = author
-            }
-            
-            return result
-        } catch (error) {
-            logger.warn(`Failed to extract Instagram content: ${error}`)
-            return {
-                title: "Instagram Post",
-                content: "Content from Instagram",
-                timestamp: new Date(),
-            }
+        return {
+            report: { status, found, missing, ...(error ? { error } : {}) },
+            platform: platformOverride || content.platform || extractor.platform,
+            content,
         }
     }
 
     /**
-     * Extract content from YouTube videos
+     * Detect the URL's extractor unless a platform was specified
      */
-    private async extractYouTubeContent(url: string): Promise<{
-        title?: string
-        content?: string
-        author?: string
-        timestamp?: Date
-    }> {
-        try {
-            const response = await axios.get(url, {
-                headers: {
-                    "User-Agent":
-                        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-                },
-                timeout: 10000,
-            })
-
-            const $ = cheerio.load(response.data)
-
-            // Extract video title
-            const title =
-                $('meta[property="og:title"]').attr("content") ||
-                $("title").text() ||
-                $(".title").text()
-
-            // Extract channel name
-            const author =
-                $('meta[name="author"]').attr("content") ||
-                $(".channel-name").text() ||
-                $('[data-testid="channel-name"]').text()
-
-            // Extract description
-            const description =
-                $('meta[property="og:description"]').attr("content") ||
-                $(".description").text()
-
-            const result: {
-                title?: string
-                content?: string
-                author?: string
-                timestamp?: Date
-            } = {
-                timestamp: new Date(),
-            }
-            
-            if (title) {
-                result.title = title.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH)
-            }
-            
-            if (description) {
-                result.content = description.substring(
-                    0,
-                    CONTENT_CONFIG.MAX_CONTENT_LENGTH
-                )
-            }
-            
-            if (author) {
-                result.author = author
-            }
-            
-            return result
-        } catch (error) {
-            logger.warn(`Failed to extract YouTube content: ${error}`)
-            return {
-                title: "YouTube Video",
-                content: "Content from YouTube",
-                timestamp: new Date(),
-            }
-        }
+    private resolveExtractor(
+        url: string,
+        platformOverride?: string
+    ): PlatformExtractor {
+        const registry = getExtractorRegistry()
+        return platformOverride
+            ? registry.get(platformOverride) || registry.detect(url)
+            : registry.detect(url)
     }
 
     /**
-     * Extract content from general websites
+     * Extract tweet ID from Twitter/X URL
      */
-    private async extractWebsiteContent(url: string): Promise<{
-        title?: string
-        content?: string
-        author?: string
-        timestamp?: Date
-    }> {
-        try {
-            const response = await axios.get(url, {
-                headers: {
-                    "User-Agent":
-                        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-                },
-                timeout: 10000,
-            })
-
-            const $ = cheerio.load(response.data)
-
-            // Extract title
-            const title =
-                $('meta[property="og:title"]').attr("content") ||
-                $("title").text() ||
-                $("h1").first().text()
-
-            // Extract description/content
-            const content =
-                $('meta[property="og:description"]').attr("content") ||
-                $('meta[name="description"]').attr("content") ||
-                $("p").first().text()
-
-            // Extract author
-            const author =
-                $('meta[name="author"]').attr("content") ||
-                $(".author").text() ||
-                $("[data-author]").attr("data-author")
-
-            const result: {
-                title?: string
-                content?: string
-                author?: string
-                timestamp?: Date
-            } = {
-                timestamp: new Date(),
-            }
-            
-            if (title) {
-                result.title = title.substring(0, CONTENT_CONFIG.DEFAULT_TITLE_LENGTH)
-            }
-            
-            if (content) {
-                result.content = content.substring(0, CONTENT_CONFIG.MAX_CONTENT_LENGTH)
-            }
-            
-            if (author) {
-                result.author = author
-            }
-            
-            return result
-        } catch (error) {
-            logger.warn(`Failed to extract website content: ${error}`)
-            return {
-                title: "Website Content",
-                content: "Content from website",
-                timestamp: new Date(),
-            }
-        }
+    extractTweetId(url: string): string | null {
+        return extractTweetId(url)
     }
 
     /**
@@ -372,26 +185,95 @@ export class PostProcessor {
 
     /**
      * Generate verification message based on platform and content
+     * Messages longer than a tweet are shortened: the title first, then the
+     * author, and finally the message itself
      */
     generateVerificationMessage(
-        platform: string,
-        suremarkUsername: string,
+        postData: PostData,
+        dashboardUrl: string,
+        customMessage?: string,
+        templateName?: string
+    ): string {
+        const { body, values } = this.resolveMessage(
+            postData,
+            dashboardUrl,
+            customMessage,
+            templateName
+        )
+
+        const maxLength = PROCESSING_CONFIG.MAX_TWEET_LENGTH
+        let message = renderTemplate(body, values)
+
+        // Shorten the title until the message fits
+        while (!fitsInTweet(message, maxLength) && values.title) {
+            const overflow = getTweetLength(message) - maxLength
+            const titleLength = getTweetLength(values.title) - overflow
+            values.title =
+                titleLength > 1
+                    ? truncateToTweetLength(values.title, titleLength)
+                    : ""
+            message = renderTemplate(body, values)
+        }
+
+        if (!fitsInTweet(message, maxLength) && values.author) {
+            values.author = ""
+            message = renderTemplate(body, values)
+        }
+
+        return truncateToTweetLength(message, maxLength)
+    }
+
+    /**
+     * Generate the full verification message without shortening it, for
+     * posting as a thread
+     */
+    generateThreadMessage(
+        postData: PostData,
         dashboardUrl: string,
-        customMessage?: string
+        customMessage?: string,
+        templateName?: string
     ): string {
+        const { body, values } = this.resolveMessage(
+            postData,
+            dashboardUrl,
+            customMessage,
+            templateName
+        )
+        return renderTemplate(body, values)
+    }
+
+    /**
+     * Pick the message body and the placeholder values for a post
+     */
+    private resolveMessage(
+        postData: PostData,
+        dashboardUrl: string,
+        customMessage?: string,
+        templateName?: string
+    ): { body: string; values: Record<string, string> } {
+        const platform = postData.platform || "website"
+        let body: string
+
         if (customMessage) {
-            return customMessage
-                .replace("@{suremark_username}", `@${suremarkUsername}`)
-                .replace("{dashboard_url}", dashboardUrl)
+            const errors = validateTemplateBody(customMessage)
+            if (errors.length > 0) {
+                throw new Error(`Invalid custom message: ${errors.join("; ")}`)
+            }
+            body = customMessage
+        } else {
+            body = getTemplateRegistry().resolve(platform, templateName).body
         }
 
-        const template =
-            MESSAGE_TEMPLATES.PLATFORM_SPECIFIC[
-                platform as keyof typeof MESSAGE_TEMPLATES.PLATFORM_SPECIFIC
-            ] || MESSAGE_TEMPLATES.DEFAULT
+        const values: Record<string, string> = {
+            suremark_username: postData.suremark_username || "suremark_user",
+            dashboard_url: dashboardUrl,
+            post_url: postData.url || "",
+            title: postData.title || "",
+            author: postData.author || "",
+            platform: getPlatformDisplayName(platform),
+        }
 
-        return template
-            .replace("@{suremark_username}", `@${suremarkUsername}`)
-            .replace("{dashboard_url}", dashboardUrl)
+        return { body, values }
     }
 }
+
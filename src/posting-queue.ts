@@ -0,0 +1,190 @@
+import {
+    RATE_LIMIT_WINDOW,
+    RATE_LIMITS,
+    RETRY_CONFIG,
+    TweetResult,
+} from "./config"
+import { logger } from "./utils/logger"
+
+export type RateLimitedEndpoint = keyof typeof RATE_LIMITS
+
+export interface PostingQueueOptions {
+    maxRetries?: number
+    maxRateLimitWaits?: number
+    baseDelayMs?: number
+    maxDelayMs?: number
+    // Per-endpoint overrides of RATE_LIMITS (an account's own limits)
+    rateLimits?: Partial<Record<RateLimitedEndpoint, number>>
+    // Injectable for callers that need to observe or shorten waits
+    sleep?: (ms: number) => Promise<void>
+}
+
+/**
+ * Token bucket refilled continuously over the rate limit window
+ */
+class TokenBucket {
+    private tokens: number
+    private lastRefill = Date.now()
+    private blockedUntil = 0
+
+    constructor(
+        private capacity: number,
+        private windowMs: number
+    ) {
+        this.tokens = capacity
+    }
+
+    /**
+     * Milliseconds to wait before a token is available (0 if one is now)
+     */
+    waitTime(): number {
+        const now = Date.now()
+        if (this.blockedUntil > now) {
+            return this.blockedUntil - now
+        }
+
+        this.refill(now)
+        if (this.tokens >= 1) {
+            return 0
+        }
+        return Math.ceil(((1 - this.tokens) * this.windowMs) / this.capacity)
+    }
+
+    /**
+     * Consume a token
+     */
+    take(): void {
+        this.refill(Date.now())
+        this.tokens = Math.max(this.tokens - 1, 0)
+    }
+
+    /**
+     * Empty the bucket until the given time (the API's rate limit reset)
+     */
+    blockUntil(time: number): void {
+        this.tokens = 0
+        this.blockedUntil = Math.max(this.blockedUntil, time)
+        this.lastRefill = Math.max(this.lastRefill, time)
+    }
+
+    private refill(now: number): void {
+        if (now <= this.lastRefill) return
+        const refilled =
+            ((now - this.lastRefill) * this.capacity) / this.windowMs
+        this.tokens = Math.min(this.capacity, this.tokens + refilled)
+        this.lastRefill = now
+    }
+}
+
+/**
+ * Serializes posts to the X API, keeping each endpoint within RATE_LIMITS,
+ * sleeping through rate limit resets and retrying transient failures with
+ * exponential backoff and jitter
+ */
+export class PostingQueue {
+    private buckets = new Map<RateLimitedEndpoint, TokenBucket>()
+    private tail: Promise<unknown> = Promise.resolve()
+    private options: Required<PostingQueueOptions>
+
+    constructor(options: PostingQueueOptions = {}) {
+        this.options = {
+            maxRetries: options.maxRetries ?? RETRY_CONFIG.MAX_RETRIES,
+            maxRateLimitWaits:
+                options.maxRateLimitWaits ?? RETRY_CONFIG.MAX_RATE_LIMIT_WAITS,
+            baseDelayMs: options.baseDelayMs ?? RETRY_CONFIG.BASE_DELAY * 1000,
+            maxDelayMs: options.maxDelayMs ?? RETRY_CONFIG.MAX_DELAY * 1000,
+            rateLimits: options.rateLimits ?? {},
+            sleep:
+                options.sleep ??
+                ((ms) => new Promise((resolve) => setTimeout(resolve, ms))),
+        }
+    }
+
+    /**
+     * Queue a posting call against an endpoint's rate limit
+     */
+    run(
+        endpoint: RateLimitedEndpoint,
+        post: () => Promise<TweetResult>
+    ): Promise<TweetResult> {
+        const result = this.tail.then(() => this.execute(endpoint, post))
+        // Keep the chain alive even if a call throws
+        this.tail = result.catch(() => undefined)
+        return result
+    }
+
+    private async execute(
+        endpoint: RateLimitedEndpoint,
+        post: () => Promise<TweetResult>
+    ): Promise<TweetResult> {
+        const bucket = this.getBucket(endpoint)
+        let retries = 0
+        let rateLimitWaits = 0
+
+        while (true) {
+            const wait = bucket.waitTime()
+            if (wait > 0) {
+                logger.info(
+                    `Waiting ${Math.ceil(wait / 1000)}s for ${endpoint} rate limit`
+                )
+                await this.options.sleep(wait)
+                continue
+            }
+
+            bucket.take()
+            const result = await post()
+
+            if (result.success) {
+                return result
+            }
+
+            if (result.retry_after !== undefined) {
+                if (rateLimitWaits >= this.options.maxRateLimitWaits) {
+                    return result
+                }
+                rateLimitWaits++
+                bucket.blockUntil(Date.now() + result.retry_after * 1000)
+                logger.warn(
+                    `${endpoint} rate limited, sleeping ${result.retry_after}s until reset`
+                )
+                continue
+            }
+
+            if (result.retryable && retries < this.options.maxRetries) {
+                const delay = this.backoff(retries)
+                retries++
+                logger.warn(
+                    `Transient posting error (${result.error}), retry ${retries}/${this.options.maxRetries} in ${Math.ceil(delay / 1000)}s`
+                )
+                await this.options.sleep(delay)
+                continue
+            }
+
+            return result
+        }
+    }
+
+    /**
+     * Exponential backoff with jitter: a random delay between half and all
+     * of the capped exponential delay
+     */
+    private backoff(attempt: number): number {
+        const ceiling = Math.min(
+            this.options.maxDelayMs,
+            this.options.baseDelayMs * 2 ** attempt
+        )
+        return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2)
+    }
+
+    private getBucket(endpoint: RateLimitedEndpoint): TokenBucket {
+        let bucket = this.buckets.get(endpoint)
+        if (!bucket) {
+            bucket = new TokenBucket(
+                this.options.rateLimits[endpoint] ?? RATE_LIMITS[endpoint],
+                RATE_LIMIT_WINDOW * 1000
+            )
+            this.buckets.set(endpoint, bucket)
+        }
+        return bucket
+    }
+}
@@ -0,0 +1,139 @@
+import { XAccountPool } from "./accounts"
+import {
+    MESSAGE_TEMPLATES,
+    PROCESSING_CONFIG,
+    ProcessedPost,
+    RecheckResult,
+} from "./config"
+import { PostDatabase } from "./database"
+import { SourceUnavailableError } from "./extractors/liveness"
+import { PostProcessor } from "./post-processor"
+import { PostingQueue } from "./posting-queue"
+import { renderTemplate } from "./templates"
+import { compareFingerprints } from "./utils/fingerprint"
+import { logger } from "./utils/logger"
+import { truncateToTweetLength } from "./utils/tweet-length"
+import { XAPIClient } from "./x-api"
+
+export interface RecheckOptions {
+    // Reply under the verification tweet when the post was edited
+    reply?: boolean | undefined
+}
+
+/**
+ * Re-extracts previously tweeted posts and compares their fingerprints with
+ * the ones stored at verification time, flagging posts edited since
+ * Replies go out from the account that posted the verification
+ */
+export class Rechecker {
+    constructor(
+        xClient: XAPIClient,
+        private postProcessor: PostProcessor,
+        private database: PostDatabase,
+        postingQueue: PostingQueue = new PostingQueue(),
+        private accounts: XAccountPool = new XAccountPool()
+    ) {
+        this.accounts.add(xClient, postingQueue)
+    }
+
+    /**
+     * Recheck one post and store the result on its record
+     * Only title or content changes count as edits; the raw response of most
+     * pages changes between fetches, so a raw-only change is just reported
+     */
+    async recheck(
+        post: ProcessedPost,
+        options: RecheckOptions = {}
+    ): Promise<RecheckResult> {
+        const result = await this.compare(post)
+
+        // Reply once per post, not on every recheck that finds it edited
+        const previousReply = post.recheck?.replyTweetId
+        if (previousReply) {
+            result.replyTweetId = previousReply
+        } else if (result.status === "edited" && options.reply && post.tweet?.id) {
+            const account = post.account ?? this.accounts.defaultAccount
+            const reply = await this.accounts.queue(account).run("REPLIES", () =>
+                this.accounts
+                    .client(account)
+                    .replyToTweet(post.tweet!.id, editedNotice(post))
+            )
+            if (reply.success) {
+                result.replyTweetId = reply.tweet_id
+            } else {
+                logger.error(`Failed to reply about edited post ${post.url}: ${reply.error}`)
+                result.error = reply.error
+            }
+        }
+
+        await this.database.saveRecheck(post.url, result)
+        return result
+    }
+
+    /**
+     * Re-extract the post and compare it with the verified fingerprint
+     * Deleted sources are detected even on posts verified without one
+     */
+    async compare(post: ProcessedPost): Promise<RecheckResult> {
+        const checkedAt = new Date()
+
+        try {
+            // Live pages only: a cached copy would hide recent edits
+            const postData = await this.postProcessor.processUrl(
+                post.url,
+                post.suremarkUsername,
+                post.platform,
+                { cache: false }
+            )
+            if (!post.fingerprint) {
+                return {
+                    status: "failed",
+                    changed: [],
+                    checkedAt,
+                    error: "No fingerprint was stored when the post was verified",
+                }
+            }
+            if (!postData.fingerprint) {
+                return {
+                    status: "failed",
+                    changed: [],
+                    checkedAt,
+                    error: postData.extraction?.error,
+                }
+            }
+
+            const { changed, inconclusive } = compareFingerprints(
+                post.fingerprint,
+                postData.fingerprint
+            )
+            if (inconclusive) {
+                return { status: "inconclusive", changed, checkedAt, error: inconclusive }
+            }
+            const edited = changed.some((field) => field !== "raw")
+            return { status: edited ? "edited" : "unchanged", changed, checkedAt }
+        } catch (error: any) {
+            if (error instanceof SourceUnavailableError) {
+                return {
+                    status: "unavailable",
+                    changed: [],
+                    checkedAt,
+                    error: error.message,
+                    reason: error.reason,
+                }
+            }
+            return { status: "failed", changed: [], checkedAt, error: error.message }
+        }
+    }
+}
+
+/**
+ * Follow-up reply noting that a verified post has changed
+ */
+export function editedNotice(post: ProcessedPost): string {
+    const message = renderTemplate(MESSAGE_TEMPLATES.EDITED_NOTICE, {
+        suremark_username: post.suremarkUsername || "suremark_user",
+        post_url: post.url,
+        verified_date: post.processedAt.toISOString().slice(0, 10),
+    })
+    return truncateToTweetLength(message, PROCESSING_CONFIG.MAX_TWEET_LENGTH)
+}
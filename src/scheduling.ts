@@ -0,0 +1,56 @@
+import parser from "cron-parser"
+
+/**
+ * Parse a --at value: an ISO 8601 timestamp, or "HH:MM" for the next time
+ * that UTC clock time comes round
+ */
+export function parseRunAt(value: string, now: Date = new Date()): Date {
+    const clock = value.trim().match(/^(\d{1,2}):(\d{2})$/)
+    if (clock) {
+        const hours = Number(clock[1])
+        const minutes = Number(clock[2])
+        if (hours > 23 || minutes > 59) {
+            throw new Error(`Invalid time: ${value}`)
+        }
+
+        const runAt = new Date(now)
+        runAt.setUTCHours(hours, minutes, 0, 0)
+        if (runAt <= now) {
+            runAt.setUTCDate(runAt.getUTCDate() + 1)
+        }
+        return runAt
+    }
+
+    const runAt = new Date(value)
+    if (isNaN(runAt.getTime())) {
+        throw new Error(
+            `Invalid time: ${value} (use ISO 8601, e.g. 2024-05-01T14:00:00Z, or HH:MM in UTC)`
+        )
+    }
+    return runAt
+}
+
+/**
+ * The next `count` occurrences of a cron expression (evaluated in UTC)
+ */
+export function cronRunTimes(
+    expression: string,
+    count: number,
+    from: Date = new Date()
+): Date[] {
+    let interval
+    try {
+        interval = parser.parseExpression(expression, {
+            currentDate: from,
+            tz: "UTC",
+        })
+    } catch (error: any) {
+        throw new Error(`Invalid cron expression "${expression}": ${error.message}`)
+    }
+
+    const times: Date[] = []
+    for (let i = 0; i < count; i++) {
+        times.push(interval.next().toDate())
+    }
+    return times
+}
@@ -0,0 +1,123 @@
+import fs from "fs"
+import path from "path"
+import { decrypt, EncryptedData, encrypt } from "./utils/crypto"
+
+// Secret names follow environment variable naming
+const SECRET_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+interface StoredSecret {
+    value: string
+    updatedAt: string
+}
+
+// Vault file layout: every secret, names included, in one encrypted blob
+interface VaultFile {
+    version: 1
+    vault: EncryptedData
+}
+
+export interface SecretEntry {
+    name: string
+    updatedAt: Date
+}
+
+/**
+ * Local secrets store, encrypted with AES-256-GCM under a key derived
+ * from the master passphrase
+ *
+ * Config reads it when a secret's environment variable is not set, so this
+ * module must not import config at runtime
+ */
+export class SecretsVault {
+    // Decrypted secrets, loaded on first use
+    private secrets: Record<string, StoredSecret> | null = null
+
+    constructor(
+        private file: string,
+        private passphrase: string
+    ) {}
+
+    exists(): boolean {
+        return fs.existsSync(this.file)
+    }
+
+    get(name: string): string | undefined {
+        return this.load()[name]?.value
+    }
+
+    set(name: string, value: string): void {
+        if (!SECRET_NAME.test(name)) {
+            throw new Error(
+                `Invalid secret name: ${name} (use letters, digits and underscores)`
+            )
+        }
+
+        const secrets = { ...this.load() }
+        secrets[name] = { value, updatedAt: new Date().toISOString() }
+        this.write(secrets, this.requirePassphrase())
+    }
+
+    /**
+     * Secret names and when they were last set, sorted by name
+     */
+    list(): SecretEntry[] {
+        return Object.entries(this.load())
+            .map(([name, secret]) => ({ name, updatedAt: new Date(secret.updatedAt) }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+    }
+
+    /**
+     * Re-encrypt the vault under a new master passphrase
+     */
+    rotate(newPassphrase: string): void {
+        if (!newPassphrase) {
+            throw new Error("The new master passphrase must not be empty")
+        }
+        this.write(this.load(), newPassphrase)
+        this.passphrase = newPassphrase
+    }
+
+    private load(): Record<string, StoredSecret> {
+        if (this.secrets) {
+            return this.secrets
+        }
+        if (!this.exists()) {
+            return {}
+        }
+
+        const parsed: VaultFile = JSON.parse(fs.readFileSync(this.file, "utf8"))
+        if (parsed?.version !== 1 || !parsed.vault) {
+            throw new Error(`Unsupported secrets vault: ${this.file}`)
+        }
+
+        this.secrets = JSON.parse(decrypt(parsed.vault, this.requirePassphrase()))
+        return this.secrets!
+    }
+
+    /**
+     * Write through a temporary file, readable by the owner only
+     */
+    private write(secrets: Record<string, StoredSecret>, passphrase: string): void {
+        const contents: VaultFile = {
+            version: 1,
+            vault: encrypt(JSON.stringify(secrets), passphrase),
+        }
+
+        fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 })
+        const temporary = `${this.file}.${process.pid}.tmp`
+        fs.writeFileSync(temporary, JSON.stringify(contents, null, 2), {
+            mode: 0o600,
+        })
+        fs.renameSync(temporary, this.file)
+        this.secrets = secrets
+    }
+
+    private requirePassphrase(): string {
+        if (!this.passphrase) {
+            throw new Error(
+                `SECRETS_PASSPHRASE (or SECRETS_KEY_FILE) is required to open the secrets vault ${this.file}`
+            )
+        }
+        return this.passphrase
+    }
+}
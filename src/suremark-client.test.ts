@@ -0,0 +1,181 @@
+import http from "http"
+import { AddressInfo } from "net"
+import { ERROR_MESSAGES, PostData } from "./config"
+import { PostDatabase } from "./database"
+import { VerificationPipeline } from "./pipeline"
+import { PostProcessor } from "./post-processor"
+import { SureMarkClient } from "./suremark-client"
+import { contentHash } from "./utils/fingerprint"
+import { XAPIClient } from "./x-api"
+
+const POST_URL = "https://x.com/newsdesk/status/1724000000000000000"
+const CONTENT = "The storm photo circulating today is from 2017."
+
+interface StubRequest {
+    url: URL
+    authorization: string | undefined
+}
+
+/**
+ * Verification backend stub: answers each request with handler's
+ * [status, body] and records what was asked
+ */
+function startBackend(
+    handler: (url: URL) => [number, unknown]
+): Promise<{ baseUrl: string; requests: StubRequest[]; close: () => Promise<void> }> {
+    const requests: StubRequest[] = []
+    const server = http.createServer((request, response) => {
+        const url = new URL(request.url!, "http://localhost")
+        requests.push({ url, authorization: request.headers.authorization })
+
+        const [status, body] = handler(url)
+        response.writeHead(status, { "Content-Type": "application/json" })
+        response.end(typeof body === "string" ? body : JSON.stringify(body))
+    })
+
+    return new Promise((resolve) => {
+        server.listen(0, "127.0.0.1", () => {
+            const { port } = server.address() as AddressInfo
+            resolve({
+                baseUrl: `http://127.0.0.1:${port}/v1`,
+                requests,
+                close: () => new Promise((done) => server.close(() => done())),
+            })
+        })
+    })
+}
+
+const RECORD = {
+    verificationId: "ver_8f2c1a",
+    username: "factdesk",
+    verifiedAt: "2023-11-15T14:20:00.000Z",
+}
+
+describe("SureMarkClient", () => {
+    let backend: Awaited<ReturnType<typeof startBackend>> | undefined
+
+    afterEach(async () => {
+        await backend?.close()
+        backend = undefined
+    })
+
+    it("returns the verification record for a verified URL", async () => {
+        backend = await startBackend(() => [200, RECORD])
+        const client = new SureMarkClient(backend.baseUrl, "sk_test_key")
+
+        const record = await client.findVerification(POST_URL, CONTENT)
+
+        expect(record).toEqual({
+            verificationId: "ver_8f2c1a",
+            username: "factdesk",
+            verifiedAt: new Date("2023-11-15T14:20:00.000Z"),
+        })
+        expect(backend.requests).toHaveLength(1)
+        expect(backend.requests[0]!.url.pathname).toBe("/v1/verifications")
+        expect(backend.requests[0]!.url.searchParams.get("url")).toBe(POST_URL)
+        expect(backend.requests[0]!.authorization).toBe("Bearer sk_test_key")
+    })
+
+    it("falls back to the content hash when the URL is unknown", async () => {
+        backend = await startBackend((url) =>
+            url.searchParams.has("contentHash") ? [200, RECORD] : [404, { error: "not found" }]
+        )
+        const client = new SureMarkClient(backend.baseUrl, "")
+
+        const record = await client.findVerification(POST_URL, CONTENT)
+
+        expect(record?.verificationId).toBe("ver_8f2c1a")
+        expect(backend.requests[1]!.url.searchParams.get("contentHash")).toBe(
+            contentHash(CONTENT)
+        )
+        expect(backend.requests[1]!.authorization).toBeUndefined()
+    })
+
+    it("returns null when nothing matches (404)", async () => {
+        backend = await startBackend(() => [404, { error: "not found" }])
+        const client = new SureMarkClient(backend.baseUrl, "")
+
+        await expect(client.findVerification(POST_URL, CONTENT)).resolves.toBeNull()
+        expect(backend.requests).toHaveLength(2)
+    })
+
+    it.each([
+        ["a missing username", { ...RECORD, username: undefined }],
+        ["an invalid date", { ...RECORD, verifiedAt: "yesterday" }],
+        ["a non-JSON body", "<html>Bad gateway</html>"],
+    ])("rejects a malformed record with %s", async (_, body) => {
+        backend = await startBackend(() => [200, body])
+        const client = new SureMarkClient(backend.baseUrl, "")
+
+        await expect(client.lookup({ url: POST_URL })).rejects.toThrow(
+            /Malformed verification record/
+        )
+    })
+
+    it("throws when the backend answers with a server error", async () => {
+        backend = await startBackend(() => [503, { error: "maintenance" }])
+        const client = new SureMarkClient(backend.baseUrl, "")
+
+        await expect(client.lookup({ url: POST_URL })).rejects.toThrow(
+            /SureMark verification lookup failed/
+        )
+    })
+
+    it("throws when the backend cannot be reached", async () => {
+        // Take a free port and close it again, so nothing listens there
+        const closed = await startBackend(() => [200, RECORD])
+        await closed.close()
+        const client = new SureMarkClient(closed.baseUrl, "")
+
+        await expect(client.findVerification(POST_URL, CONTENT)).rejects.toThrow(
+            /SureMark verification lookup failed/
+        )
+    })
+})
+
+describe("VerificationPipeline without a SureMark verification", () => {
+    let backend: Awaited<ReturnType<typeof startBackend>> | undefined
+
+    afterEach(async () => {
+        await backend?.close()
+        backend = undefined
+    })
+
+    it("refuses to post and records nothing", async () => {
+        backend = await startBackend(() => [404, { error: "not found" }])
+
+        const postData: PostData = {
+            url: POST_URL,
+            platform: "twitter",
+            content: CONTENT,
+        }
+        const postTweet = jest.fn()
+        const xClient = { account: "default", postTweet } as unknown as XAPIClient
+        const processor = {
+            processUrl: jest.fn().mockResolvedValue(postData),
+        } as unknown as PostProcessor
+        const database = {
+            isPostProcessed: jest.fn().mockResolvedValue(false),
+            saveProcessedPost: jest.fn(),
+            saveSuccessfulPost: jest.fn(),
+        } as unknown as PostDatabase
+
+        const pipeline = new VerificationPipeline(
+            xClient,
+            processor,
+            database,
+            undefined,
+            new SureMarkClient(backend.baseUrl, "")
+        )
+        const outcome = await pipeline.verify(POST_URL)
+
+        expect(outcome.status).toBe("failed")
+        expect(outcome.error).toBe(ERROR_MESSAGES.NOT_VERIFIED)
+        expect(postTweet).not.toHaveBeenCalled()
+        expect(database.saveSuccessfulPost).not.toHaveBeenCalled()
+        expect(backend.requests.map((request) => request.url.searchParams.toString())).toEqual([
+            `url=${encodeURIComponent(POST_URL)}`,
+            `contentHash=${contentHash(CONTENT)}`,
+        ])
+    })
+})
@@ -0,0 +1,86 @@
+import axios, { AxiosInstance } from "axios"
+import { BOT_CONFIG, VerificationRecord } from "./config"
+import { contentHash } from "./utils/fingerprint"
+import { logger } from "./utils/logger"
+
+/**
+ * Client for the SureMark verification backend, which records the posts
+ * SureMark users have verified
+ *
+ * GET /verifications?url=<post url> or ?contentHash=<sha256 hex> answers
+ * { verificationId, username, verifiedAt } or 404 when nothing matches.
+ */
+export class SureMarkClient {
+    private http: AxiosInstance
+
+    constructor(
+        baseUrl: string = BOT_CONFIG.SURMARK_API_URL,
+        apiKey: string = BOT_CONFIG.SURMARK_API_KEY
+    ) {
+        this.http = axios.create({
+            baseURL: baseUrl.replace(/\/+$/, ""),
+            timeout: BOT_CONFIG.SURMARK_API_TIMEOUT * 1000,
+            headers: {
+                Accept: "application/json",
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+        })
+    }
+
+    /**
+     * Find the verification record for a post, by URL first and then by the
+     * hash of its content
+     * Returns null when no record exists; throws when the backend cannot
+     * be reached, so posts are never tweeted unverified
+     */
+    async findVerification(
+        url: string,
+        content?: string
+    ): Promise<VerificationRecord | null> {
+        const byUrl = await this.lookup({ url })
+        if (byUrl || !content) {
+            return byUrl
+        }
+        return this.lookup({ contentHash: contentHash(content) })
+    }
+
+    /**
+     * Look up a verification record by URL or content hash
+     */
+    async lookup(
+        query: { url: string } | { contentHash: string }
+    ): Promise<VerificationRecord | null> {
+        try {
+            const response = await this.http.get("/verifications", {
+                params: query,
+            })
+            return parseRecord(response.data)
+        } catch (error: any) {
+            if (error.response?.status === 404) {
+                return null
+            }
+            logger.error(`SureMark verification lookup failed: ${error.message}`)
+            throw new Error(`SureMark verification lookup failed: ${error.message}`)
+        }
+    }
+}
+
+/**
+ * Validate a verification record from the backend
+ */
+function parseRecord(data: any): VerificationRecord {
+    const verifiedAt = new Date(data?.verifiedAt)
+    if (
+        typeof data?.verificationId !== "string" ||
+        typeof data?.username !== "string" ||
+        isNaN(verifiedAt.getTime())
+    ) {
+        throw new Error("Malformed verification record from SureMark")
+    }
+
+    return {
+        verificationId: data.verificationId,
+        username: data.username,
+        verifiedAt,
+    }
+}
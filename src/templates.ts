@@ -0,0 +1,383 @@
+import fs from "fs"
+import path from "path"
+import YAML from "yaml"
+import {
+    MESSAGE_TEMPLATES,
+    MessageTemplate,
+    PostData,
+    TEMPLATE_CONFIG,
+} from "./config"
+import { getExtractorRegistry } from "./extractors/registry"
+import { logger } from "./utils/logger"
+
+// Variables a template may reference
+export const TEMPLATE_VARIABLES = [
+    "suremark_username",
+    "dashboard_url",
+    "post_url",
+    "title",
+    "author",
+    "platform",
+]
+
+// Sample post used by `templates preview`
+export const SAMPLE_POST_DATA: PostData = {
+    url: "https://x.com/suremark/status/1780000000000000000",
+    platform: "twitter",
+    title: "SureMark launches verified content dashboard",
+    content: "Today we are launching the SureMark verified content dashboard.",
+    author: "suremark",
+    timestamp: new Date("2024-04-16T12:00:00Z"),
+    suremark_username: "jane_verifier",
+}
+
+type TemplateNode =
+    | { type: "text"; value: string }
+    | { type: "variable"; name: string }
+    | {
+          type: "if"
+          name: string
+          then: TemplateNode[]
+          otherwise: TemplateNode[]
+      }
+
+// Matches {name}, {#if name}, {else} and {/if}
+const TAG_PATTERN = /\{(?:#if\s+(\w+)|(else)|(\/if)|(\w+))\}/g
+
+/**
+ * Parse a template body into nodes, collecting syntax errors
+ */
+function parseTemplate(body: string): {
+    nodes: TemplateNode[]
+    variables: string[]
+    errors: string[]
+} {
+    const root: TemplateNode[] = []
+    const stack: Array<{ node: TemplateNode & { type: "if" }; inElse: boolean }> = []
+    const variables = new Set<string>()
+    const errors: string[] = []
+    let lastIndex = 0
+
+    const current = (): TemplateNode[] => {
+        const top = stack[stack.length - 1]
+        if (!top) return root
+        return top.inElse ? top.node.otherwise : top.node.then
+    }
+
+    for (const match of body.matchAll(TAG_PATTERN)) {
+        const [tag, ifName, elseTag, endIf, variable] = match
+        const index = match.index!
+
+        if (index > lastIndex) {
+            current().push({ type: "text", value: body.slice(lastIndex, index) })
+        }
+        lastIndex = index + tag.length
+
+        if (ifName) {
+            variables.add(ifName)
+            const node: TemplateNode & { type: "if" } = {
+                type: "if",
+                name: ifName,
+                then: [],
+                otherwise: [],
+            }
+            current().push(node)
+            stack.push({ node, inElse: false })
+        } else if (elseTag) {
+            const top = stack[stack.length - 1]
+            if (!top || top.inElse) {
+                errors.push("{else} without a matching {#if}")
+            } else {
+                top.inElse = true
+            }
+        } else if (endIf) {
+            if (!stack.pop()) {
+                errors.push("{/if} without a matching {#if}")
+            }
+        } else if (variable) {
+            variables.add(variable)
+            current().push({ type: "variable", name: variable })
+        }
+    }
+
+    if (lastIndex < body.length) {
+        current().push({ type: "text", value: body.slice(lastIndex) })
+    }
+
+    for (const open of stack) {
+        errors.push(`{#if ${open.node.name}} is never closed with {/if}`)
+    }
+
+    return { nodes: root, variables: [...variables], errors }
+}
+
+/**
+ * Render parsed nodes; missing values render as empty strings
+ */
+function renderNodes(
+    nodes: TemplateNode[],
+    values: Record<string, string>
+): string {
+    return nodes
+        .map((node) => {
+            switch (node.type) {
+                case "text":
+                    return node.value
+                case "variable":
+                    return values[node.name] ?? ""
+                case "if":
+                    return renderNodes(
+                        values[node.name] ? node.then : node.otherwise,
+                        values
+                    )
+            }
+        })
+        .join("")
+}
+
+/**
+ * Check a template body for syntax errors and unknown placeholders
+ */
+export function validateTemplateBody(
+    body: string,
+    declaredVariables?: string[]
+): string[] {
+    const { variables, errors } = parseTemplate(body)
+
+    for (const variable of variables) {
+        if (!TEMPLATE_VARIABLES.includes(variable)) {
+            errors.push(`Unknown placeholder {${variable}}`)
+        } else if (declaredVariables && !declaredVariables.includes(variable)) {
+            errors.push(`Placeholder {${variable}} is not listed in variables`)
+        }
+    }
+
+    return errors
+}
+
+/**
+ * Render a template body, substituting every occurrence of each placeholder
+ * and evaluating {#if name}...{else}...{/if} blocks
+ */
+export function renderTemplate(
+    body: string,
+    values: Record<string, string>
+): string {
+    const { nodes, errors } = parseTemplate(body)
+    if (errors.length > 0) {
+        throw new Error(`Invalid template: ${errors.join("; ")}`)
+    }
+    return renderNodes(nodes, values)
+}
+
+/**
+ * Message templates from the built-in MESSAGE_TEMPLATES plus any YAML/JSON
+ * files in the templates directory. File templates override built-ins with
+ * the same name and locale.
+ */
+export class TemplateRegistry {
+    private templates = new Map<string, MessageTemplate[]>()
+
+    /**
+     * Create a registry with the built-in templates and the given directory
+     */
+    static load(directory: string = TEMPLATE_CONFIG.DIRECTORY): TemplateRegistry {
+        const registry = new TemplateRegistry()
+        registry.registerBuiltIns()
+        registry.loadDirectory(directory)
+        return registry
+    }
+
+    /**
+     * Register the templates defined in MESSAGE_TEMPLATES and the default
+     * template of each platform extractor
+     */
+    registerBuiltIns(): void {
+        const platformTemplates: Record<string, string> = {
+            ...MESSAGE_TEMPLATES.PLATFORM_SPECIFIC,
+        }
+        for (const extractor of getExtractorRegistry().list()) {
+            if (extractor.defaultTemplate) {
+                platformTemplates[extractor.platform] = extractor.defaultTemplate
+            }
+        }
+
+        const builtIns: Array<[string, string, string[] | undefined]> = [
+            ["default", MESSAGE_TEMPLATES.DEFAULT, undefined],
+            ["custom", MESSAGE_TEMPLATES.CUSTOM, undefined],
+            ["short", MESSAGE_TEMPLATES.SHORT, undefined],
+            ...Object.entries(platformTemplates).map(
+                ([platform, body]): [string, string, string[]] => [
+                    platform,
+                    body,
+                    [platform],
+                ]
+            ),
+        ]
+
+        for (const [name, body, platforms] of builtIns) {
+            this.register({
+                name,
+                version: 1,
+                body,
+                platforms,
+                locale: TEMPLATE_CONFIG.LOCALE,
+                source: "built-in",
+            })
+        }
+    }
+
+    /**
+     * Load every .yaml, .yml and .json template file in a directory
+     * Throws if a file is malformed or references unknown placeholders
+     */
+    loadDirectory(directory: string): void {
+        if (!fs.existsSync(directory)) {
+            logger.debug(`Templates directory not found: ${directory}`)
+            return
+        }
+
+        const files = fs
+            .readdirSync(directory)
+            .filter((file) => /\.(ya?ml|json)$/i.test(file))
+            .sort()
+
+        for (const file of files) {
+            const filePath = path.join(directory, file)
+            const raw = fs.readFileSync(filePath, "utf8")
+            const parsed = file.toLowerCase().endsWith(".json")
+                ? JSON.parse(raw)
+                : YAML.parse(raw)
+
+            // A file may hold a single template or a list of them
+            const entries = Array.isArray(parsed) ? parsed : [parsed]
+            for (const entry of entries) {
+                this.register(this.toTemplate(entry, filePath))
+            }
+        }
+    }
+
+    /**
+     * Add a template after validating it
+     */
+    register(template: MessageTemplate): void {
+        const errors = validateTemplateBody(template.body, template.variables)
+        if (errors.length > 0) {
+            throw new Error(
+                `Template "${template.name}" (${template.source}) is invalid: ${errors.join("; ")}`
+            )
+        }
+
+        const variants = (this.templates.get(template.name) || []).filter(
+            (existing) => existing.locale !== template.locale
+        )
+        variants.push(template)
+        this.templates.set(template.name, variants)
+    }
+
+    /**
+     * Get a template by name, preferring the given locale
+     */
+    get(
+        name: string,
+        locale: string = TEMPLATE_CONFIG.LOCALE
+    ): MessageTemplate | undefined {
+        const variants = this.templates.get(name)
+        if (!variants) return undefined
+        return (
+            variants.find((template) => template.locale === locale) ||
+            variants.find((template) => !template.locale) ||
+            variants[0]
+        )
+    }
+
+    /**
+     * Pick the template for a post: the named one if it applies to the
+     * platform, else the platform's own template, else "default"
+     */
+    resolve(
+        platform: string,
+        name?: string,
+        locale?: string
+    ): MessageTemplate {
+        if (name) {
+            const template = this.get(name, locale)
+            if (!template) {
+                throw new Error(`Unknown message template: ${name}`)
+            }
+            if (appliesTo(template, platform)) {
+                return template
+            }
+            logger.warn(
+                `Template "${name}" does not apply to ${platform} posts, using the platform default`
+            )
+        }
+
+        return this.get(platform, locale) || this.get("default", locale)!
+    }
+
+    /**
+     * All templates, sorted by name and locale
+     */
+    list(): MessageTemplate[] {
+        return [...this.templates.values()]
+            .flat()
+            .sort(
+                (a, b) =>
+                    a.name.localeCompare(b.name) ||
+                    (a.locale || "").localeCompare(b.locale || "")
+            )
+    }
+
+    /**
+     * Convert a parsed template file entry, checking required fields
+     */
+    private toTemplate(entry: any, source: string): MessageTemplate {
+        if (!entry || typeof entry.name !== "string" || !entry.name) {
+            throw new Error(`Template in ${source} is missing a name`)
+        }
+        if (typeof entry.body !== "string" || !entry.body) {
+            throw new Error(`Template "${entry.name}" in ${source} is missing a body`)
+        }
+
+        const toList = (value: unknown): string[] | undefined =>
+            value === undefined
+                ? undefined
+                : (Array.isArray(value) ? value : [value]).map(String)
+
+        return {
+            name: entry.name,
+            version: Number(entry.version ?? 1),
+            body: entry.body.replace(/\n$/, ""),
+            platforms: toList(entry.platforms ?? entry.platform),
+            locale: entry.locale ?? TEMPLATE_CONFIG.LOCALE,
+            variables: toList(entry.variables),
+            description: entry.description,
+            source,
+        }
+    }
+}
+
+/**
+ * Whether a template may be used for posts from a platform
+ */
+function appliesTo(template: MessageTemplate, platform: string): boolean {
+    return (
+        !template.platforms ||
+        template.platforms.length === 0 ||
+        template.platforms.includes("*") ||
+        template.platforms.includes(platform)
+    )
+}
+
+let defaultRegistry: TemplateRegistry | null = null
+
+/**
+ * Shared registry loaded from TEMPLATE_CONFIG.DIRECTORY on first use
+ */
+export function getTemplateRegistry(): TemplateRegistry {
+    if (!defaultRegistry) {
+        defaultRegistry = TemplateRegistry.load()
+    }
+    return defaultRegistry
+}
@@ -0,0 +1,173 @@
+import { PROCESSING_CONFIG, TweetResult } from "./config"
+import { PostingQueue } from "./posting-queue"
+import { logger } from "./utils/logger"
+import { fitsInTweet, getTweetLength } from "./utils/tweet-length"
+import { XAPIClient } from "./x-api"
+
+// Sentence ends and line breaks, captured so the gaps survive packing
+const SENTENCE_BREAK = /((?<=[.!?…])[ \t]+|[ \t]*\n\s*)/
+const WORD_BREAK = /(\s+)/
+
+export interface ThreadResult extends TweetResult {
+    // Tweets of the thread in order; after a failed rollback, the ones
+    // that could not be deleted
+    thread_ids: string[]
+}
+
+/**
+ * Split a message into numbered tweets ("…\n1/3") at sentence boundaries,
+ * falling back to word and then character boundaries for sentences longer
+ * than a tweet. Messages that fit in one tweet are returned unnumbered.
+ */
+export function splitIntoThread(
+    text: string,
+    maxLength: number = PROCESSING_CONFIG.MAX_TWEET_LENGTH
+): string[] {
+    if (fitsInTweet(text, maxLength)) {
+        return [text]
+    }
+
+    // The numbering's width depends on the number of tweets: repack until
+    // the count fits the width reserved for it
+    let count = 9
+    for (;;) {
+        const budget = maxLength - getTweetLength(numbering(count, count))
+        const chunks = pack(text.trim(), SENTENCE_BREAK, budget)
+        if (chunks.length <= count) {
+            return chunks.map((chunk, index) => chunk + numbering(index + 1, chunks.length))
+        }
+        count = 10 ** String(chunks.length).length - 1
+    }
+}
+
+/**
+ * Posts a thread as a reply chain under its first tweet, deleting the
+ * tweets already posted when a later one fails
+ */
+export class ThreadPoster {
+    constructor(
+        private xClient: XAPIClient,
+        private postingQueue: PostingQueue = new PostingQueue()
+    ) {}
+
+    /**
+     * Post the thread; postFirst posts the opening tweet (standalone, reply
+     * or quote), the rest reply to the tweet before them
+     */
+    async post(
+        tweets: string[],
+        postFirst: (text: string) => Promise<TweetResult>
+    ): Promise<ThreadResult> {
+        const first = await postFirst(tweets[0]!)
+        if (!first.success) {
+            return { ...first, thread_ids: [] }
+        }
+
+        const threadIds = [first.tweet_id!]
+        for (let index = 1; index < tweets.length; index++) {
+            const previousId = threadIds[threadIds.length - 1]!
+            const result = await this.postingQueue.run("REPLIES", () =>
+                this.xClient.replyToTweet(previousId, tweets[index]!)
+            )
+
+            if (!result.success) {
+                logger.error(
+                    `Thread failed at tweet ${index + 1}/${tweets.length}: ${result.error}`
+                )
+                const remaining = await this.deleteTweets(threadIds)
+                const cleanup =
+                    remaining.length > 0
+                        ? `could not delete ${remaining.join(", ")}`
+                        : `deleted the ${threadIds.length} tweet(s) already posted`
+                return {
+                    ...result,
+                    error: `Thread failed at tweet ${index + 1}/${tweets.length} (${result.error}); ${cleanup}`,
+                    thread_ids: remaining,
+                }
+            }
+            threadIds.push(result.tweet_id!)
+        }
+
+        return { ...first, thread_ids: threadIds }
+    }
+
+    /**
+     * Delete a partial thread, last tweet first; returns the IDs that could
+     * not be deleted. Tweets already gone (404) count as deleted.
+     */
+    async deleteTweets(tweetIds: string[]): Promise<string[]> {
+        const remaining: string[] = []
+
+        for (const tweetId of [...tweetIds].reverse()) {
+            const result = await this.postingQueue.run("DELETES", () =>
+                this.xClient.deleteTweet(tweetId)
+            )
+            if (!result.success && result.status_code !== 404) {
+                logger.error(`Failed to roll back tweet ${tweetId}: ${result.error}`)
+                remaining.unshift(tweetId)
+            }
+        }
+
+        return remaining
+    }
+}
+
+function numbering(index: number, count: number): string {
+    return `\n${index}/${count}`
+}
+
+/**
+ * Greedily pack the pieces between breaks into chunks of at most budget,
+ * splitting pieces that are too long on their own on the next finer break
+ */
+function pack(text: string, breaks: RegExp, budget: number): string[] {
+    const parts = text.split(breaks)
+    const chunks: string[] = []
+    let current = ""
+
+    // split() with a capture group alternates pieces and the gaps between them
+    for (let index = 0; index < parts.length; index += 2) {
+        const piece = parts[index]!
+        const gap = parts[index - 1] ?? ""
+        if (!piece) continue
+
+        if (current && fitsInTweet(current + gap + piece, budget)) {
+            current += gap + piece
+            continue
+        }
+        if (current) chunks.push(current)
+
+        if (fitsInTweet(piece, budget)) {
+            current = piece
+            continue
+        }
+        const pieces =
+            breaks === SENTENCE_BREAK
+                ? pack(piece, WORD_BREAK, budget)
+                : splitCharacters(piece, budget)
+        current = pieces.pop() ?? ""
+        chunks.push(...pieces)
+    }
+
+    if (current) chunks.push(current)
+    return chunks
+}
+
+/**
+ * Cut a single word longer than a tweet by characters
+ */
+function splitCharacters(word: string, budget: number): string[] {
+    const chunks: string[] = []
+    let current = ""
+
+    for (const char of word) {
+        if (current && !fitsInTweet(current + char, budget)) {
+            chunks.push(current)
+            current = ""
+        }
+        current += char
+    }
+
+    if (current) chunks.push(current)
+    return chunks
+}
@@ -0,0 +1,122 @@
+import fs from "fs"
+import path from "path"
+import { OAUTH_CONFIG, OAuthToken } from "./config"
+import { decrypt, EncryptedData, encrypt } from "./utils/crypto"
+import { registerSecret } from "./utils/redact"
+
+// Token file layout: account names in the clear (so status can list them
+// without the passphrase), each token encrypted separately
+interface TokenFile {
+    version: 1
+    accounts: Record<string, EncryptedData>
+}
+
+/**
+ * OAuth 2.0 tokens per X account, encrypted at rest with a passphrase
+ */
+export class TokenStore {
+    constructor(
+        private file: string = OAUTH_CONFIG.TOKEN_FILE,
+        private passphrase: string = OAUTH_CONFIG.TOKEN_PASSPHRASE
+    ) {}
+
+    /**
+     * Accounts with a stored token (readable without the passphrase)
+     */
+    accounts(): string[] {
+        return Object.keys(this.read().accounts).sort()
+    }
+
+    has(account: string): boolean {
+        return account in this.read().accounts
+    }
+
+    /**
+     * Decrypt an account's token; throws without the right passphrase
+     */
+    get(account: string): OAuthToken | null {
+        const encrypted = this.read().accounts[account]
+        if (!encrypted) {
+            return null
+        }
+
+        const stored = JSON.parse(decrypt(encrypted, this.requirePassphrase()))
+        registerSecret(stored.accessToken)
+        registerSecret(stored.refreshToken)
+        return {
+            ...stored,
+            expiresAt: new Date(stored.expiresAt),
+            obtainedAt: new Date(stored.obtainedAt),
+        }
+    }
+
+    save(account: string, token: OAuthToken): void {
+        registerSecret(token.accessToken)
+        registerSecret(token.refreshToken)
+        const contents = this.read()
+        contents.accounts[account] = encrypt(
+            JSON.stringify(token),
+            this.requirePassphrase()
+        )
+        this.write(contents)
+    }
+
+    /**
+     * Forget an account's token; returns whether there was one
+     */
+    remove(account: string): boolean {
+        const contents = this.read()
+        if (!(account in contents.accounts)) {
+            return false
+        }
+        delete contents.accounts[account]
+        this.write(contents)
+        return true
+    }
+
+    private read(): TokenFile {
+        if (!fs.existsSync(this.file)) {
+            return { version: 1, accounts: {} }
+        }
+
+        const parsed = JSON.parse(fs.readFileSync(this.file, "utf8"))
+        if (parsed?.version !== 1 || typeof parsed.accounts !== "object") {
+            throw new Error(`Unsupported token file: ${this.file}`)
+        }
+        return parsed
+    }
+
+    /**
+     * Write through a temporary file so a crash never leaves a partial
+     * token file, readable by the owner only
+     */
+    private write(contents: TokenFile): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 })
+        const temporary = `${this.file}.${process.pid}.tmp`
+        fs.writeFileSync(temporary, JSON.stringify(contents, null, 2), {
+            mode: 0o600,
+        })
+        fs.renameSync(temporary, this.file)
+    }
+
+    private requirePassphrase(): string {
+        if (!this.passphrase) {
+            throw new Error(
+                "TWITTER_TOKEN_PASSPHRASE is required to read or store OAuth 2.0 tokens"
+            )
+        }
+        return this.passphrase
+    }
+}
+
+let defaultStore: TokenStore | null = null
+
+/**
+ * Shared store for OAUTH_CONFIG.TOKEN_FILE
+ */
+export function getTokenStore(): TokenStore {
+    if (!defaultStore) {
+        defaultStore = new TokenStore()
+    }
+    return defaultStore
+}
@@ -0,0 +1,150 @@
+import { getFetcher } from "./http-fetcher"
+import { logger } from "./logger"
+
+// Query parameters that only track where a click came from, whatever the
+// site (names distinctive enough not to clash with a page's own parameters)
+const TRACKING_PARAMS = [
+    /^utm_/,
+    /^fbclid$/,
+    /^gclid$/,
+    /^dclid$/,
+    /^msclkid$/,
+    /^mc_cid$/,
+    /^mc_eid$/,
+    /^igshid$/,
+    /^igsh$/,
+    /^ref_src$/,
+    /^ref_url$/,
+    /^__twitter_impression$/,
+]
+
+// Short tracking parameters, only stripped on the sites that add them:
+// elsewhere ?t=1 or ?s=2 can select a different page
+const HOST_TRACKING_PARAMS: Record<string, RegExp[]> = {
+    "twitter.com": [/^s$/, /^t$/],
+    "x.com": [/^s$/, /^t$/],
+    "youtube.com": [/^t$/, /^feature$/, /^si$/],
+    "youtu.be": [/^t$/, /^feature$/, /^si$/],
+    "tiktok.com": [/^share_id$/],
+}
+
+// Hosts whose links only redirect to the real post
+const SHORT_LINK_HOSTS = [
+    "t.co",
+    "bit.ly",
+    "buff.ly",
+    "dlvr.it",
+    "fb.me",
+    "goo.gl",
+    "lnkd.in",
+    "ow.ly",
+    "tinyurl.com",
+    "trib.al",
+]
+
+/**
+ * Produce a stable key for a post URL so that different links to the same
+ * post compare equal:
+ *   twitter.com/a/status/1, x.com/a/status/1?s=20 -> twitter:1
+ *   youtu.be/ID, youtube.com/watch?v=ID&t=30      -> youtube:ID
+ *   instagram.com/p/CODE, instagram.com/reel/CODE -> instagram:CODE
+ * Other URLs become a normalized URL without tracking parameters.
+ */
+export function canonicalizeUrl(url: string): string {
+    const parsed = new URL(url.trim())
+    const host = normalizeHost(parsed.hostname)
+    const segments = parsed.pathname.split("/").filter(Boolean)
+
+    if (host === "twitter.com" || host === "x.com") {
+        const statusIndex = segments.indexOf("status")
+        const tweetId = segments[statusIndex + 1]
+        if (statusIndex !== -1 && tweetId && /^\d+$/.test(tweetId)) {
+            return `twitter:${tweetId}`
+        }
+    }
+
+    if (host === "youtube.com" || host === "youtu.be") {
+        const videoId = extractYouTubeVideoId(parsed, host, segments)
+        if (videoId) {
+            return `youtube:${videoId}`
+        }
+    }
+
+    if (host === "instagram.com") {
+        const index = segments.findIndex((segment) =>
+            ["p", "reel", "reels", "tv"].includes(segment)
+        )
+        const shortcode = segments[index + 1]
+        if (index !== -1 && shortcode) {
+            return `instagram:${shortcode}`
+        }
+    }
+
+    return normalizeUrl(parsed, host)
+}
+
+/**
+ * Follow redirects of known link shorteners to the URL they point at
+ * Returns the original URL if it is not a short link or cannot be resolved
+ */
+export async function resolveShortLink(url: string): Promise<string> {
+    let host: string
+    try {
+        host = normalizeHost(new URL(url).hostname)
+    } catch {
+        return url
+    }
+
+    if (!SHORT_LINK_HOSTS.includes(host)) {
+        return url
+    }
+
+    try {
+        const response = await getFetcher().fetch(url, { robots: false })
+        return response.url
+    } catch (error: any) {
+        logger.warn(`Could not resolve short link ${url}: ${error.message}`)
+        return url
+    }
+}
+
+/**
+ * Resolve short links and canonicalize a URL into its dedupe key
+ */
+export async function getCanonicalKey(url: string): Promise<string> {
+    return canonicalizeUrl(await resolveShortLink(url))
+}
+
+function normalizeHost(hostname: string): string {
+    const host = hostname.toLowerCase().replace(/\.$/, "")
+    return host.replace(/^(www|m|mobile)\./, "")
+}
+
+function extractYouTubeVideoId(
+    parsed: URL,
+    host: string,
+    segments: string[]
+): string | null {
+    if (host === "youtu.be") {
+        return segments[0] || null
+    }
+    if (segments[0] === "watch") {
+        return parsed.searchParams.get("v")
+    }
+    if (["shorts", "embed", "live", "v"].includes(segments[0] || "")) {
+        return segments[1] || null
+    }
+    return null
+}
+
+function normalizeUrl(parsed: URL, host: string): string {
+    const tracking = [...TRACKING_PARAMS, ...(HOST_TRACKING_PARAMS[host] || [])]
+    const params = [...parsed.searchParams.entries()]
+        .filter(([key]) => !tracking.some((pattern) => pattern.test(key)))
+        .sort(([a], [b]) => a.localeCompare(b))
+    const query = new URLSearchParams(params).toString()
+    const port = parsed.port ? `:${parsed.port}` : ""
+    const path = parsed.pathname.replace(/\/+$/, "") || ""
+
+    return `${parsed.protocol}//${host}${port}${path}${query ? `?${query}` : ""}`
+}
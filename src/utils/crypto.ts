@@ -0,0 +1,76 @@
+import crypto from "crypto"
+
+const ALGORITHM = "aes-256-gcm"
+const KEY_LENGTH = 32
+// scrypt cost; N * r * 128 bytes of memory per derivation (32 MB)
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }
+
+// Passphrase-encrypted value; binary fields are base64
+export interface EncryptedData {
+    version: 1
+    algorithm: typeof ALGORITHM
+    salt: string
+    iv: string
+    tag: string
+    data: string
+}
+
+/**
+ * Thrown when data cannot be decrypted: a wrong passphrase or tampered data
+ */
+export class DecryptionError extends Error {
+    constructor(message: string = "Could not decrypt: wrong passphrase or corrupted data") {
+        super(message)
+        this.name = "DecryptionError"
+    }
+}
+
+/**
+ * Encrypt text with AES-256-GCM under a key derived from the passphrase
+ * (scrypt, with a fresh salt and IV per value)
+ */
+export function encrypt(plaintext: string, passphrase: string): EncryptedData {
+    const salt = crypto.randomBytes(16)
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(passphrase, salt), iv)
+    const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+
+    return {
+        version: 1,
+        algorithm: ALGORITHM,
+        salt: salt.toString("base64"),
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+        data: data.toString("base64"),
+    }
+}
+
+/**
+ * Decrypt a value from encrypt(); throws DecryptionError if the passphrase
+ * is wrong or the data was modified
+ */
+export function decrypt(encrypted: EncryptedData, passphrase: string): string {
+    if (encrypted?.version !== 1 || encrypted.algorithm !== ALGORITHM) {
+        throw new DecryptionError("Unsupported encrypted data format")
+    }
+
+    try {
+        const key = deriveKey(passphrase, Buffer.from(encrypted.salt, "base64"))
+        const decipher = crypto.createDecipheriv(
+            ALGORITHM,
+            key,
+            Buffer.from(encrypted.iv, "base64")
+        )
+        decipher.setAuthTag(Buffer.from(encrypted.tag, "base64"))
+        return Buffer.concat([
+            decipher.update(Buffer.from(encrypted.data, "base64")),
+            decipher.final(),
+        ]).toString("utf8")
+    } catch {
+        throw new DecryptionError()
+    }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS)
+}
@@ -0,0 +1,87 @@
+import crypto from "crypto"
+import { ContentFingerprint, ExtractedContent } from "../config"
+
+/**
+ * Normalize text before hashing so formatting differences (Unicode forms,
+ * line endings, repeated whitespace) do not change the hash
+ */
+export function normalizeText(text: string): string {
+    return text.normalize("NFKC").replace(/\s+/g, " ").trim()
+}
+
+/**
+ * SHA-256 hex digest of a post's normalized content
+ */
+export function contentHash(text: string): string {
+    return sha256(normalizeText(text))
+}
+
+/**
+ * SHA-256 hex digest of text as-is
+ */
+export function sha256(text: string): string {
+    return crypto.createHash("sha256").update(text).digest("hex")
+}
+
+export interface FingerprintComparison {
+    // Fingerprint fields (title, content, raw) whose hashes differ
+    changed: string[]
+    // Why the fingerprints could not be compared, if they could not
+    inconclusive?: string
+}
+
+/**
+ * Fingerprint extracted content: hashes of its normalized full title and
+ * content (as extracted, before truncation) plus the extractor's raw
+ * response hash and source
+ */
+export function fingerprintContent(content: ExtractedContent): ContentFingerprint {
+    const fingerprint: ContentFingerprint = {
+        algorithm: "sha256",
+        computedAt: new Date(),
+    }
+    if (content.title) {
+        fingerprint.title = content.titleHash ?? contentHash(content.title)
+    }
+    if (content.content) {
+        fingerprint.content = content.contentHash ?? contentHash(content.content)
+    }
+    if (content.rawHash) {
+        fingerprint.raw = content.rawHash
+    }
+    if (content.metadata?.source) {
+        fingerprint.source = content.metadata.source
+    }
+    return fingerprint
+}
+
+/**
+ * Fingerprint fields present in both fingerprints whose hashes differ
+ * Fingerprints read from different sources (e.g. the X API, then the
+ * syndication endpoint) format the same post differently, so a mismatch
+ * between them is inconclusive rather than an edit
+ */
+export function compareFingerprints(
+    verified: ContentFingerprint,
+    current: ContentFingerprint
+): FingerprintComparison {
+    const changed = (["title", "content", "raw"] as const).filter(
+        (field) =>
+            !!verified[field] &&
+            !!current[field] &&
+            verified[field] !== current[field]
+    )
+
+    if (
+        changed.length > 0 &&
+        verified.source &&
+        current.source &&
+        verified.source !== current.source
+    ) {
+        return {
+            changed,
+            inconclusive: `verified from ${verified.source}, rechecked from ${current.source}`,
+        }
+    }
+    return { changed }
+}
@@ -0,0 +1,35 @@
+import { isPrivateAddress } from "./http-fetcher"
+
+describe("isPrivateAddress", () => {
+    it.each([
+        ["loopback", "127.0.0.1"],
+        ["a private network", "10.1.2.3"],
+        ["a private network", "192.168.1.20"],
+        ["carrier-grade NAT", "100.64.0.1"],
+        ["link-local", "169.254.169.254"],
+        ["benchmarking (198.18.0.0/15)", "198.18.0.1"],
+        ["benchmarking (198.18.0.0/15)", "198.19.255.254"],
+        ["IETF protocol assignments (192.0.0.0/24)", "192.0.0.170"],
+        ["IPv6 loopback", "::1"],
+        ["IPv6 unique local", "fd12:3456::1"],
+        ["an IPv4-mapped private address", "::ffff:10.0.0.1"],
+        ["an IPv4-mapped address in hex", "::ffff:7f00:1"],
+        ["a NAT64 loopback address", "64:ff9b::7f00:1"],
+        ["a 6to4 loopback address", "2002:7f00:1::"],
+        ["a 6to4 private address", "2002:c0a8:114::1"],
+        ["a 6to4 benchmarking address", "2002:c612:1::"],
+    ])("blocks %s (%s)", (_, address) => {
+        expect(isPrivateAddress(address)).toBe(true)
+    })
+
+    it.each([
+        ["a public address", "93.184.216.34"],
+        ["a public address next to 198.18.0.0/15", "198.20.0.1"],
+        ["a public address next to 192.0.0.0/24", "192.0.1.1"],
+        ["a public IPv6 address", "2606:4700:4700::1111"],
+        ["a 6to4 public address", "2002:5db8:d822::1"],
+        ["an IPv4-mapped public address", "::ffff:93.184.216.34"],
+    ])("allows %s (%s)", (_, address) => {
+        expect(isPrivateAddress(address)).toBe(false)
+    })
+})
@@ -0,0 +1,681 @@
+import axios, { AxiosProxyConfig } from "axios"
+import crypto from "crypto"
+import dns from "dns"
+import fs from "fs"
+import http from "http"
+import https from "https"
+import net from "net"
+import path from "path"
+import { FETCH_CONFIG } from "../config"
+import { logger } from "./logger"
+
+export type FetchAccept = "html" | "json" | "image" | "any"
+
+export type FetchErrorReason =
+    | "blocked" // SSRF guard: private, loopback or link-local address
+    | "robots" // Disallowed by robots.txt
+    | "status" // Non-2xx response
+    | "content-type" // Unexpected content type
+    | "too-large" // Body over FETCH_CONFIG.MAX_BODY_SIZE
+    | "redirects" // Too many redirects
+    | "network" // Connection, DNS or timeout failure
+
+export interface FetchOptions {
+    accept?: FetchAccept
+    params?: Record<string, string>
+    headers?: Record<string, string>
+    // Check robots.txt before fetching (default: FETCH_CONFIG.RESPECT_ROBOTS)
+    robots?: boolean
+    // Use the on-disk response cache (default: true)
+    cache?: boolean
+}
+
+export interface FetchResponse {
+    // Final URL after redirects
+    url: string
+    status: number
+    contentType: string
+    body: string
+    fromCache: boolean
+}
+
+// An undecoded response, for images and other binary content
+export interface BinaryResponse {
+    url: string
+    status: number
+    contentType: string
+    data: Buffer
+}
+
+export interface FetcherSettings {
+    userAgent: string
+    robotsAgent: string
+    respectRobots: boolean
+    proxy: string
+    timeoutMs: number
+    maxRedirects: number
+    maxBodySize: number
+    maxRetries: number
+    retryBaseDelayMs: number
+    allowPrivateNetworks: boolean
+    cacheDir: string
+    cacheTtlMs: number
+}
+
+/**
+ * Raised when a URL cannot be fetched; reason says which check failed
+ */
+export class FetchError extends Error {
+    constructor(
+        message: string,
+        public reason: FetchErrorReason,
+        public url: string,
+        public status?: number
+    ) {
+        super(message)
+        this.name = "FetchError"
+    }
+}
+
+const ACCEPTED_TYPES: Record<FetchAccept, RegExp> = {
+    html: /^(text\/html|application\/xhtml\+xml)/i,
+    json: /^(application\/([\w.+-]+\+)?json|text\/javascript|text\/plain)/i,
+    image: /^image\/(jpeg|png|gif|webp)/i,
+    any: /.*/,
+}
+
+const ACCEPT_HEADERS: Record<FetchAccept, string> = {
+    html: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+    json: "application/json,*/*;q=0.8",
+    image: "image/webp,image/png,image/jpeg,image/gif;q=0.9",
+    any: "*/*",
+}
+
+interface RobotsRules {
+    allow: string[]
+    disallow: string[]
+}
+
+interface CacheEntry {
+    url: string
+    status: number
+    contentType: string
+    body: string
+    fetchedAt: number
+}
+
+/**
+ * Shared HTTP client for extractors. Adds a configurable User-Agent and
+ * proxy, caps redirects and body size, checks the content type, decodes the
+ * body's charset, retries transient failures with backoff, refuses private
+ * and link-local addresses, honours robots.txt and caches responses on disk.
+ */
+export class HttpFetcher {
+    private settings: FetcherSettings
+    private robots = new Map<string, Promise<RobotsRules>>()
+
+    constructor(settings: Partial<FetcherSettings> = {}) {
+        this.settings = {
+            userAgent: FETCH_CONFIG.USER_AGENT,
+            robotsAgent: FETCH_CONFIG.ROBOTS_AGENT,
+            respectRobots: FETCH_CONFIG.RESPECT_ROBOTS,
+            proxy: FETCH_CONFIG.PROXY,
+            timeoutMs: FETCH_CONFIG.TIMEOUT * 1000,
+            maxRedirects: FETCH_CONFIG.MAX_REDIRECTS,
+            maxBodySize: FETCH_CONFIG.MAX_BODY_SIZE,
+            maxRetries: FETCH_CONFIG.MAX_RETRIES,
+            retryBaseDelayMs: FETCH_CONFIG.RETRY_BASE_DELAY * 1000,
+            allowPrivateNetworks: FETCH_CONFIG.ALLOW_PRIVATE_NETWORKS,
+            cacheDir: FETCH_CONFIG.CACHE_DIR,
+            cacheTtlMs: FETCH_CONFIG.CACHE_TTL * 1000,
+            ...settings,
+        }
+    }
+
+    /**
+     * Fetch a URL, following redirects, and return its decoded body
+     * Throws a FetchError when any check fails
+     */
+    async fetch(url: string, options: FetchOptions = {}): Promise<FetchResponse> {
+        const accept = options.accept ?? "any"
+        const requestUrl = withParams(url, options.params)
+        const useCache = (options.cache ?? true) && this.settings.cacheTtlMs > 0
+        const cacheKey = hash(`${accept} ${requestUrl}`)
+
+        if (useCache) {
+            const cached = this.readCache(cacheKey)
+            if (cached) {
+                return { ...cached, fromCache: true }
+            }
+        }
+
+        if (options.robots ?? this.settings.respectRobots) {
+            await this.checkRobots(requestUrl)
+        }
+
+        const raw = await this.withRetries(requestUrl, () =>
+            this.fetchFollowingRedirects(requestUrl, accept, options.headers)
+        )
+        const response = {
+            url: raw.url,
+            status: raw.status,
+            contentType: raw.contentType,
+            body: decodeBody(raw.data, raw.contentType),
+        }
+        if (useCache) {
+            this.writeCache(cacheKey, response)
+        }
+        return { ...response, fromCache: false }
+    }
+
+    /**
+     * Fetch a URL without decoding its body (images); never cached
+     * Throws a FetchError when any check fails
+     */
+    async fetchBuffer(
+        url: string,
+        options: Omit<FetchOptions, "cache"> = {}
+    ): Promise<BinaryResponse> {
+        const accept = options.accept ?? "any"
+        const requestUrl = withParams(url, options.params)
+
+        if (options.robots ?? this.settings.respectRobots) {
+            await this.checkRobots(requestUrl)
+        }
+
+        return this.withRetries(requestUrl, () =>
+            this.fetchFollowingRedirects(requestUrl, accept, options.headers)
+        )
+    }
+
+    /**
+     * Retry transient failures with exponential backoff and jitter
+     */
+    private async withRetries<T>(url: string, request: () => Promise<T>): Promise<T> {
+        let attempt = 0
+        while (true) {
+            try {
+                return await request()
+            } catch (error: any) {
+                if (!isTransient(error) || attempt >= this.settings.maxRetries) {
+                    throw error
+                }
+                const delay =
+                    this.settings.retryBaseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2)
+                attempt++
+                logger.debug(
+                    `Retrying ${url} (${attempt}/${this.settings.maxRetries}) after ${error.message}`
+                )
+                await new Promise((resolve) => setTimeout(resolve, delay))
+            }
+        }
+    }
+
+    /**
+     * Request a URL hop by hop so every redirect target passes the SSRF guard
+     */
+    private async fetchFollowingRedirects(
+        url: string,
+        accept: FetchAccept,
+        headers: Record<string, string> = {}
+    ): Promise<BinaryResponse> {
+        let current = url
+
+        for (let hop = 0; hop <= this.settings.maxRedirects; hop++) {
+            const addresses = await this.assertPublicUrl(current)
+
+            let response
+            try {
+                response = await axios.get<ArrayBuffer>(current, {
+                    headers: {
+                        "User-Agent": this.settings.userAgent,
+                        Accept: ACCEPT_HEADERS[accept],
+                        ...headers,
+                    },
+                    timeout: this.settings.timeoutMs,
+                    maxRedirects: 0,
+                    maxContentLength: this.settings.maxBodySize,
+                    responseType: "arraybuffer",
+                    proxy: parseProxy(this.settings.proxy),
+                    // Connect to the addresses that were checked, so a second
+                    // DNS answer cannot point the request at a private host.
+                    // Through a proxy, the proxy resolves the target instead
+                    ...(this.settings.proxy
+                        ? {}
+                        : pinnedAgents(new URL(current).hostname, addresses)),
+                    validateStatus: () => true,
+                })
+            } catch (error: any) {
+                if (/maxContentLength/i.test(error.message)) {
+                    throw new FetchError(
+                        `Response from ${current} exceeds ${this.settings.maxBodySize} bytes`,
+                        "too-large",
+                        current
+                    )
+                }
+                throw new FetchError(
+                    `Request to ${current} failed: ${error.message}`,
+                    "network",
+                    current
+                )
+            }
+
+            const location = response.headers["location"]
+            if (response.status >= 300 && response.status < 400 && location) {
+                current = new URL(String(location), current).toString()
+                continue
+            }
+
+            if (response.status < 200 || response.status >= 300) {
+                throw new FetchError(
+                    `${current} responded with HTTP ${response.status}`,
+                    "status",
+                    current,
+                    response.status
+                )
+            }
+
+            const contentType = String(response.headers["content-type"] || "")
+            if (contentType && !ACCEPTED_TYPES[accept].test(contentType)) {
+                throw new FetchError(
+                    `${current} returned ${contentType}, expected ${accept}`,
+                    "content-type",
+                    current,
+                    response.status
+                )
+            }
+
+            return {
+                url: current,
+                status: response.status,
+                contentType,
+                data: Buffer.from(response.data),
+            }
+        }
+
+        throw new FetchError(
+            `${url} redirected more than ${this.settings.maxRedirects} times`,
+            "redirects",
+            url
+        )
+    }
+
+    /**
+     * SSRF guard: refuse URLs whose host is or resolves to a loopback,
+     * private, link-local or otherwise non-public address
+     * Returns the checked addresses of a hostname (empty for IP literals or
+     * when private networks are allowed)
+     */
+    private async assertPublicUrl(url: string): Promise<string[]> {
+        const parsed = new URL(url)
+        if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+            throw new FetchError(`Unsupported protocol ${parsed.protocol}`, "blocked", url)
+        }
+        if (this.settings.allowPrivateNetworks) {
+            return []
+        }
+
+        const hostname = parsed.hostname.replace(/^\[|\]$/g, "")
+        if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+            throw new FetchError(`Refusing to fetch local address ${hostname}`, "blocked", url)
+        }
+
+        let addresses: string[]
+        if (net.isIP(hostname)) {
+            addresses = [hostname]
+        } else {
+            try {
+                const results = await dns.promises.lookup(hostname, { all: true })
+                addresses = results.map((result) => result.address)
+            } catch (error: any) {
+                throw new FetchError(
+                    `Could not resolve ${hostname}: ${error.message}`,
+                    "network",
+                    url
+                )
+            }
+        }
+
+        const blocked = addresses.find(isPrivateAddress)
+        if (blocked) {
+            throw new FetchError(
+                `Refusing to fetch ${hostname}: resolves to non-public address ${blocked}`,
+                "blocked",
+                url
+            )
+        }
+        return net.isIP(hostname) ? [] : addresses
+    }
+
+    /**
+     * Throw if robots.txt disallows the URL for our agent
+     */
+    private async checkRobots(url: string): Promise<void> {
+        const { origin, pathname, search } = new URL(url)
+
+        let rules = this.robots.get(origin)
+        if (!rules) {
+            rules = this.loadRobots(origin)
+            this.robots.set(origin, rules)
+        }
+
+        if (!isAllowed(await rules, pathname + search)) {
+            throw new FetchError(`${url} is disallowed by robots.txt`, "robots", url)
+        }
+    }
+
+    /**
+     * Fetch and parse an origin's robots.txt; a missing or unreadable file
+     * allows everything
+     */
+    private async loadRobots(origin: string): Promise<RobotsRules> {
+        try {
+            const response = await this.fetch(`${origin}/robots.txt`, {
+                accept: "any",
+                robots: false,
+            })
+            return parseRobots(response.body, this.settings.robotsAgent)
+        } catch (error: any) {
+            logger.debug(`No usable robots.txt for ${origin}: ${error.message}`)
+            return { allow: [], disallow: [] }
+        }
+    }
+
+    private readCache(key: string): Omit<FetchResponse, "fromCache"> | null {
+        const file = path.join(this.settings.cacheDir, `${key}.json`)
+        try {
+            const entry: CacheEntry = JSON.parse(fs.readFileSync(file, "utf8"))
+            if (Date.now() - entry.fetchedAt > this.settings.cacheTtlMs) {
+                return null
+            }
+            return {
+                url: entry.url,
+                status: entry.status,
+                contentType: entry.contentType,
+                body: entry.body,
+            }
+        } catch {
+            return null
+        }
+    }
+
+    private writeCache(key: string, response: Omit<FetchResponse, "fromCache">): void {
+        try {
+            fs.mkdirSync(this.settings.cacheDir, { recursive: true })
+            const entry: CacheEntry = { ...response, fetchedAt: Date.now() }
+            fs.writeFileSync(
+                path.join(this.settings.cacheDir, `${key}.json`),
+                JSON.stringify(entry)
+            )
+        } catch (error: any) {
+            logger.warn(`Could not write HTTP cache entry: ${error.message}`)
+        }
+    }
+}
+
+/**
+ * Whether an IPv4 or IPv6 address is loopback, private, link-local,
+ * carrier-grade NAT, benchmarking, IETF protocol assignment, multicast or
+ * unspecified
+ * IPv4-mapped (::ffff:0:0/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16)
+ * addresses are checked as the IPv4 address they embed, whether written
+ * dotted or in hex
+ */
+export function isPrivateAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        const [a = 0, b = 0, c = 0] = address.split(".").map(Number)
+        return (
+            a === 0 ||
+            a === 10 ||
+            a === 127 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 0 && c === 0) || // 192.0.0.0/24
+            (a === 192 && b === 168) ||
+            (a === 198 && (b === 18 || b === 19)) || // 198.18.0.0/15
+            a >= 224
+        )
+    }
+
+    const groups = ipv6Groups(address)
+    if (!groups) {
+        return false
+    }
+
+    const prefix = groups
+        .slice(0, 6)
+        .map((group) => group.toString(16))
+        .join(":")
+    if (prefix === "0:0:0:0:0:ffff" || prefix === "64:ff9b:0:0:0:0") {
+        return isPrivateAddress(embeddedIPv4(groups[6]!, groups[7]!))
+    }
+
+    const first = groups[0]!
+    if (first === 0x2002) {
+        return isPrivateAddress(embeddedIPv4(groups[1]!, groups[2]!))
+    }
+
+    return (
+        (groups.slice(0, 7).every((group) => group === 0) && groups[7]! <= 1) || // :: and ::1
+        (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+        (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+        (first & 0xff00) === 0xff00 // multicast ff00::/8
+    )
+}
+
+/**
+ * Dotted IPv4 address held in two 16-bit IPv6 groups
+ */
+function embeddedIPv4(high: number, low: number): string {
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if it is not one
+ */
+function ipv6Groups(address: string): number[] | null {
+    if (!net.isIPv6(address)) {
+        return null
+    }
+
+    // A trailing dotted IPv4 address fills the last two groups
+    let ip = address.toLowerCase().replace(/%.*$/, "")
+    const dotted = ip.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number) as [number, number, number, number]
+        ip = ip.slice(0, dotted.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+    }
+
+    const [head = "", tail] = ip.split("::")
+    const parse = (part: string | undefined) =>
+        part ? part.split(":").map((group) => parseInt(group, 16)) : []
+    const start = parse(head)
+    const end = parse(tail)
+    const zeros = tail === undefined ? [] : new Array(8 - start.length - end.length).fill(0)
+    return [...start, ...zeros, ...end]
+}
+
+/**
+ * HTTP(S) agents whose DNS lookup for a hostname answers with the given
+ * addresses only; none are needed when there is nothing to pin
+ */
+function pinnedAgents(
+    hostname: string,
+    addresses: string[]
+): { httpAgent?: http.Agent; httpsAgent?: https.Agent } {
+    if (addresses.length === 0) {
+        return {}
+    }
+
+    const lookup: net.LookupFunction = (host, options, callback) => {
+        const candidates = addresses
+            .map((address) => ({ address, family: net.isIPv6(address) ? 6 : 4 }))
+            .filter((candidate) => !options.family || candidate.family === options.family)
+        const first = candidates[0]
+        if (host !== hostname || !first) {
+            const error: NodeJS.ErrnoException = new Error(
+                `No checked address for ${host}`
+            )
+            error.code = "ENOTFOUND"
+            callback(error, "")
+            return
+        }
+        if (options.all) {
+            callback(null, candidates)
+        } else {
+            callback(null, first.address, first.family)
+        }
+    }
+
+    return {
+        httpAgent: new http.Agent({ lookup }),
+        httpsAgent: new https.Agent({ lookup }),
+    }
+}
+
+/**
+ * Rules of the robots.txt group for our agent, else the "*" group
+ */
+function parseRobots(contents: string, agent: string): RobotsRules {
+    const groups = new Map<string, RobotsRules>()
+    let current: RobotsRules[] = []
+    let readingAgents = false
+
+    for (const rawLine of contents.split("\n")) {
+        const line = rawLine.replace(/#.*/, "").trim()
+        const separator = line.indexOf(":")
+        if (separator === -1) continue
+
+        const field = line.slice(0, separator).trim().toLowerCase()
+        const value = line.slice(separator + 1).trim()
+
+        if (field === "user-agent") {
+            if (!readingAgents) {
+                current = []
+                readingAgents = true
+            }
+            const name = value.toLowerCase()
+            const group = groups.get(name) || { allow: [], disallow: [] }
+            groups.set(name, group)
+            current.push(group)
+            continue
+        }
+
+        readingAgents = false
+        if ((field === "allow" || field === "disallow") && value) {
+            for (const group of current) {
+                group[field].push(value)
+            }
+        }
+    }
+
+    return (
+        groups.get(agent.toLowerCase()) || groups.get("*") || { allow: [], disallow: [] }
+    )
+}
+
+/**
+ * Longest matching rule wins; Allow wins ties
+ */
+function isAllowed(rules: RobotsRules, path: string): boolean {
+    const longest = (patterns: string[]) =>
+        Math.max(
+            -1,
+            ...patterns
+                .filter((pattern) => robotsMatch(pattern, path))
+                .map((pattern) => pattern.length)
+        )
+
+    return longest(rules.allow) >= longest(rules.disallow)
+}
+
+/**
+ * Match a robots.txt path pattern ("*" wildcards, trailing "$" anchor)
+ */
+function robotsMatch(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith("$")
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+    return new RegExp(`^${body}${anchored ? "$" : ""}`).test(path)
+}
+
+/**
+ * Decode a body using the Content-Type charset, an HTML <meta> charset, or
+ * UTF-8
+ */
+function decodeBody(body: Buffer, contentType: string): string {
+    const head = body.subarray(0, 1024).toString("latin1")
+    const charset =
+        contentType.match(/charset=["']?([\w-]+)/i)?.[1] ||
+        head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ||
+        "utf-8"
+
+    try {
+        return new TextDecoder(charset.toLowerCase()).decode(body)
+    } catch {
+        return new TextDecoder("utf-8").decode(body)
+    }
+}
+
+function isTransient(error: unknown): boolean {
+    if (!(error instanceof FetchError)) return false
+    return (
+        error.reason === "network" ||
+        (error.reason === "status" &&
+            (error.status === 429 || (error.status ?? 0) >= 500))
+    )
+}
+
+function parseProxy(proxy: string): AxiosProxyConfig | false {
+    if (!proxy) return false
+
+    const url = new URL(proxy)
+    const config: AxiosProxyConfig = {
+        protocol: url.protocol.replace(/:$/, ""),
+        host: url.hostname,
+        port: Number(url.port) || (url.protocol === "https:" ? 443 : 80),
+    }
+    if (url.username) {
+        config.auth = {
+            username: decodeURIComponent(url.username),
+            password: decodeURIComponent(url.password),
+        }
+    }
+    return config
+}
+
+function withParams(url: string, params?: Record<string, string>): string {
+    if (!params) return url
+    const parsed = new URL(url)
+    for (const [key, value] of Object.entries(params)) {
+        parsed.searchParams.set(key, value)
+    }
+    return parsed.toString()
+}
+
+function hash(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex")
+}
+
+let defaultFetcher: HttpFetcher | null = null
+
+/**
+ * Shared fetcher configured from FETCH_CONFIG
+ */
+export function getFetcher(): HttpFetcher {
+    if (!defaultFetcher) {
+        defaultFetcher = new HttpFetcher()
+    }
+    return defaultFetcher
+}
+
+/**
+ * Replace the shared fetcher with one using different settings (e.g. no
+ * cache when a command must see the live page)
+ */
+export function configureFetcher(settings: Partial<FetcherSettings>): HttpFetcher {
+    defaultFetcher = new HttpFetcher(settings)
+    return defaultFetcher
+}
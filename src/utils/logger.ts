@@ -1,5 +1,6 @@
 import winston from "winston"
 import { LOGGING_CONFIG } from "../config"
+import { redactSecrets } from "./redact"
 
 // Create logger instance
 export const logger = winston.createLogger({
@@ -7,6 +8,8 @@ export const logger = winston.createLogger({
     format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
+        // Mask secrets before any transport sees the entry
+        redactSecrets(),
         winston.format.json()
     ),
     defaultMeta: { service: "suremark-bot" },
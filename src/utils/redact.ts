@@ -0,0 +1,91 @@
+import winston from "winston"
+
+const REDACTED = "[REDACTED]"
+// Values shorter than this are too likely to appear by chance to replace
+const MIN_SECRET_LENGTH = 6
+const MAX_DEPTH = 8
+
+// Keys whose values are never logged, wherever they appear
+const SENSITIVE_KEY =
+    /pass(word|phrase)?$|secret|token|api[-_]?key|authorization|cookie|credential/i
+
+// Credentials embedded in text: user:password@ in URIs and bearer tokens
+const SENSITIVE_TEXT: Array<[RegExp, string]> = [
+    [/(\/\/[^/\s:@]+:)[^@\s/]+@/g, `$1${REDACTED}@`],
+    [/(Bearer\s+)[A-Za-z0-9\-._~+/]+=*/gi, `$1${REDACTED}`],
+]
+
+const secretValues = new Set<string>()
+
+/**
+ * Remember a secret value so it is masked wherever it shows up in logs
+ */
+export function registerSecret(value: string | undefined): void {
+    if (value && value.length >= MIN_SECRET_LENGTH) {
+        secretValues.add(value)
+    }
+}
+
+/**
+ * Mask registered secret values and embedded credentials in text
+ */
+export function redactText(text: string): string {
+    let redacted = text
+    // Longest first, so a secret containing another is masked whole
+    for (const secret of [...secretValues].sort((a, b) => b.length - a.length)) {
+        redacted = redacted.split(secret).join(REDACTED)
+    }
+    for (const [pattern, replacement] of SENSITIVE_TEXT) {
+        redacted = redacted.replace(pattern, replacement)
+    }
+    return redacted
+}
+
+/**
+ * Copy of a log value with secrets masked: values under sensitive keys are
+ * dropped and strings in plain objects and arrays are scrubbed
+ */
+export function redactValue(value: unknown, key?: string, depth: number = 0): unknown {
+    if (key && SENSITIVE_KEY.test(key) && value != null && value !== "") {
+        return REDACTED
+    }
+    if (typeof value === "string") {
+        return redactText(value)
+    }
+    if (depth >= MAX_DEPTH || !value || typeof value !== "object") {
+        return value
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, undefined, depth + 1))
+    }
+    if (value instanceof Error) {
+        const error = new Error(redactText(value.message))
+        error.name = value.name
+        if (value.stack) error.stack = redactText(value.stack)
+        return error
+    }
+    if (Object.getPrototypeOf(value) !== Object.prototype) {
+        return value
+    }
+
+    return Object.fromEntries(
+        Object.entries(value).map(([entryKey, entry]) => [
+            entryKey,
+            redactValue(entry, entryKey, depth + 1),
+        ])
+    )
+}
+
+/**
+ * Winston format masking secrets in the message and metadata before any
+ * transport writes the entry
+ */
+export const redactSecrets = winston.format((info) => {
+    for (const key of Object.keys(info)) {
+        // level is colorized later and must stay intact
+        if (key !== "level") {
+            info[key] = redactValue(info[key], key === "message" ? undefined : key)
+        }
+    }
+    return info
+})
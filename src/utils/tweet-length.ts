@@ -0,0 +1,95 @@
+import { PROCESSING_CONFIG } from "../config"
+
+// Weighted length rules from X's twitter-text v3 configuration: characters in
+// these ranges count as 1, everything else (CJK, emoji, ...) counts as 2
+const SCALE = 100
+const DEFAULT_WEIGHT = 200
+const LIGHT_WEIGHT = 100
+const LIGHT_RANGES: Array<[number, number]> = [
+    [0, 4351], // Latin, Greek, Cyrillic, Hebrew, Arabic, Indic scripts, ...
+    [8192, 8205], // Spaces and zero-width characters
+    [8208, 8223], // Hyphens, dashes and quotation marks
+    [8242, 8247], // Primes
+]
+
+const URL_PATTERN = /https?:\/\/[^\s]+|\bwww\.[^\s]+/gi
+const EMOJI_PATTERN =
+    /\p{Regional_Indicator}{2}|\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?)*/gu
+const IS_URL = /^(?:https?:\/\/|www\.)/i
+
+/**
+ * Calculate the length of a tweet the way X counts it: URLs are shortened to
+ * t.co links of 23 characters, emoji sequences and CJK characters count as 2
+ */
+export function getTweetLength(text: string): number {
+    let weight = 0
+
+    const withoutUrls = text.normalize("NFC").replace(URL_PATTERN, () => {
+        weight += PROCESSING_CONFIG.MAX_URL_LENGTH * LIGHT_WEIGHT
+        return ""
+    })
+
+    const withoutEmoji = withoutUrls.replace(EMOJI_PATTERN, () => {
+        weight += DEFAULT_WEIGHT
+        return ""
+    })
+
+    for (const char of withoutEmoji) {
+        weight += charWeight(char.codePointAt(0)!)
+    }
+
+    return Math.ceil(weight / SCALE)
+}
+
+/**
+ * Check whether a tweet fits within the maximum tweet length
+ */
+export function fitsInTweet(
+    text: string,
+    maxLength: number = PROCESSING_CONFIG.MAX_TWEET_LENGTH
+): boolean {
+    return getTweetLength(text) <= maxLength
+}
+
+/**
+ * Truncate text to a weighted length at a word boundary, appending an
+ * ellipsis. URLs are never cut in half: they are kept whole or dropped.
+ */
+export function truncateToTweetLength(text: string, maxLength: number): string {
+    if (getTweetLength(text) <= maxLength) {
+        return text
+    }
+
+    const ellipsis = "…"
+    const budget = maxLength - getTweetLength(ellipsis)
+    const tokens = text.split(/(\s+)/)
+    let result = ""
+
+    for (const token of tokens) {
+        if (getTweetLength(result + token) > budget) {
+            // A single long word that does not fit is cut by characters
+            if (!result.trim() && !IS_URL.test(token)) {
+                for (const char of token) {
+                    if (getTweetLength(result + char) > budget) break
+                    result += char
+                }
+            }
+            break
+        }
+        result += token
+    }
+
+    return result.trimEnd() + ellipsis
+}
+
+/**
+ * Weight of a single non-URL, non-emoji code point
+ */
+function charWeight(codePoint: number): number {
+    for (const [start, end] of LIGHT_RANGES) {
+        if (codePoint >= start && codePoint <= end) {
+            return LIGHT_WEIGHT
+        }
+    }
+    return DEFAULT_WEIGHT
+}
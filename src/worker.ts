@@ -0,0 +1,195 @@
+import os from "os"
+import { JOB_CONFIG, VerificationJob } from "./config"
+import { PostDatabase } from "./database"
+import { isRetryable, remainingPartialThread, VerificationPipeline } from "./pipeline"
+import { logger } from "./utils/logger"
+
+export interface WorkerOptions {
+    pollIntervalMs?: number
+    // Exit once no jobs are due instead of waiting for more
+    once?: boolean
+    // Post jobs that do not name an account from this one
+    account?: string | undefined
+}
+
+export interface JobOutcome {
+    job: VerificationJob
+    status: "done" | "retry" | "failed"
+    detail?: string
+}
+
+/**
+ * Drains due jobs from the jobs collection through the verification pipeline.
+ * Jobs are claimed atomically, so several workers can share one queue.
+ */
+export class JobWorker {
+    readonly workerId = `${os.hostname()}:${process.pid}`
+    private running = false
+    private wakeUp: (() => void) | null = null
+
+    constructor(
+        private pipeline: VerificationPipeline,
+        private database: PostDatabase,
+        private options: WorkerOptions = {}
+    ) {}
+
+    /**
+     * Process jobs until stop() is called (or the queue is drained with once)
+     */
+    async start(onJob?: (outcome: JobOutcome) => void): Promise<void> {
+        this.running = true
+        logger.info(`Worker ${this.workerId} started`)
+
+        while (this.running) {
+            const job = await this.database.claimNextJob(
+                this.workerId,
+                JOB_CONFIG.LOCK_TIMEOUT * 60 * 1000
+            )
+
+            if (job) {
+                onJob?.(await this.runJob(job))
+                continue
+            }
+
+            if (this.options.once) break
+
+            await this.sleep(
+                this.options.pollIntervalMs ?? JOB_CONFIG.POLL_INTERVAL * 1000
+            )
+        }
+
+        this.running = false
+        logger.info(`Worker ${this.workerId} stopped`)
+    }
+
+    /**
+     * Stop after the current job finishes
+     */
+    stop(): void {
+        this.running = false
+        this.wakeUp?.()
+    }
+
+    /**
+     * Run a claimed job, renewing its lock until it finishes: rate limit
+     * waits in the posting queue can outlast JOB_CONFIG.LOCK_TIMEOUT, and
+     * another worker would otherwise reclaim the job and post it again
+     */
+    private async runJob(job: VerificationJob): Promise<JobOutcome> {
+        const heartbeat = setInterval(() => {
+            this.database.renewJobLock(job._id!, this.workerId).then(
+                (held) => {
+                    if (!held) {
+                        logger.warn(`Worker ${this.workerId} lost the lock on job ${job._id}`)
+                    }
+                },
+                (error) =>
+                    logger.error(`Could not renew the lock on job ${job._id}: ${error.message}`)
+            )
+        }, JOB_CONFIG.HEARTBEAT_INTERVAL * 1000)
+
+        try {
+            return await this.executeJob(job)
+        } finally {
+            clearInterval(heartbeat)
+        }
+    }
+
+    /**
+     * Verify a job's URL and record the outcome, unless another worker has
+     * taken the job over in the meantime
+     */
+    private async executeJob(job: VerificationJob): Promise<JobOutcome> {
+        let error: string
+        // Unexpected errors (database, SureMark backend, network) may clear up
+        let retryable = true
+        let partialThreadIds = job.partialThreadIds
+
+        try {
+            const outcome = await this.pipeline.verify(job.url, {
+                ...job.options,
+                account: job.options.account ?? this.options.account,
+                partialThreadIds: job.partialThreadIds,
+            })
+
+            if (outcome.status !== "failed") {
+                const recorded = await this.database.completeJob(job._id!, this.workerId, {
+                    status: outcome.status,
+                    ...(outcome.result?.tweet_id
+                        ? { tweetId: outcome.result.tweet_id }
+                        : {}),
+                    ...(outcome.result?.tweet_url
+                        ? { tweetUrl: outcome.result.tweet_url }
+                        : {}),
+                })
+                this.warnIfLockLost(job, recorded)
+                return { job, status: "done", detail: outcome.status }
+            }
+
+            error = outcome.error || "Unknown error"
+            retryable = isRetryable(outcome)
+            partialThreadIds = remainingPartialThread(outcome, job.partialThreadIds)
+        } catch (caught: any) {
+            error = caught.message
+        }
+
+        if (retryable && job.attempts < job.maxAttempts) {
+            const delay =
+                JOB_CONFIG.RETRY_DELAY * 1000 * 2 ** (job.attempts - 1)
+            const recorded = await this.database.failJob(
+                job._id!,
+                this.workerId,
+                error,
+                new Date(Date.now() + delay),
+                partialThreadIds
+            )
+            this.warnIfLockLost(job, recorded)
+            logger.warn(
+                `Job ${job._id} attempt ${job.attempts}/${job.maxAttempts} failed: ${error}`
+            )
+            return { job, status: "retry", detail: error }
+        }
+
+        this.warnIfLockLost(
+            job,
+            await this.database.failJob(
+                job._id!,
+                this.workerId,
+                error,
+                undefined,
+                partialThreadIds
+            )
+        )
+        logger.error(
+            retryable
+                ? `Job ${job._id} failed permanently: ${error}`
+                : `Job ${job._id} failed and will not be retried: ${error}`
+        )
+        return { job, status: "failed", detail: error }
+    }
+
+    private warnIfLockLost(job: VerificationJob, recorded: boolean): void {
+        if (!recorded) {
+            logger.warn(
+                `Job ${job._id} was reclaimed by another worker; not recording this worker's outcome`
+            )
+        }
+    }
+
+    /**
+     * Sleep that can be interrupted by stop()
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => {
+                this.wakeUp = null
+                resolve()
+            }, ms)
+            this.wakeUp = () => {
+                clearTimeout(timer)
+                this.wakeUp = null
+                resolve()
+            }
+        })
+    }
+}
@@ -1,32 +1,126 @@
-import { TwitterApi } from "twitter-api-v2"
+import { EUploadMimeType, TwitterApi } from "twitter-api-v2"
 import {
+    ACCOUNTS_CONFIG,
     ERROR_MESSAGES,
+    OAUTH_CONFIG,
+    OAuthToken,
     PROCESSING_CONFIG,
     SUCCESS_MESSAGES,
     TweetResult,
     TWITTER_CONFIG,
+    XAccount,
+    XCredentials,
 } from "./config"
+import { refreshAccessToken } from "./oauth"
+import { getTokenStore, TokenStore } from "./token-store"
 import { logger } from "./utils/logger"
+import { fitsInTweet } from "./utils/tweet-length"
+
+/**
+ * Raised when the client cannot authenticate, e.g. a stored OAuth 2.0 token
+ * cannot be decrypted without TWITTER_TOKEN_PASSPHRASE
+ */
+export class CredentialsError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "CredentialsError"
+    }
+}
 
 export class XAPIClient {
-    private client: TwitterApi
-
-    constructor() {
-        this.client = new TwitterApi({
-            appKey: TWITTER_CONFIG.API_KEY,
-            appSecret: TWITTER_CONFIG.API_SECRET,
-            accessToken: TWITTER_CONFIG.ACCESS_TOKEN,
-            accessSecret: TWITTER_CONFIG.ACCESS_TOKEN_SECRET,
-        })
+    // Created on first use, so constructing a client never reads the token
+    private client: TwitterApi | null = null
+    private credentials: XCredentials
+    // Name of the account the client posts as
+    readonly account: string
+    // OAuth 2.0 token from `auth login`, used instead of the OAuth 1.0a keys
+    private oauthToken: OAuthToken | null = null
+    private refreshing: Promise<void> | null = null
+
+    /**
+     * Connect as a named account, or with the TWITTER_CONFIG credentials
+     * An account logged in with `auth login` uses its stored OAuth 2.0 token
+     */
+    constructor(account?: XAccount, private tokens: TokenStore = getTokenStore()) {
+        this.credentials = account?.credentials ?? defaultCredentials()
+        this.account = account?.name ?? ACCOUNTS_CONFIG.DEFAULT_ACCOUNT
+    }
+
+    /**
+     * The API client, after refreshing an OAuth 2.0 access token that is
+     * about to expire
+     * Throws a CredentialsError when the stored token cannot be read
+     */
+    private async api(): Promise<TwitterApi> {
+        if (!this.client) {
+            this.client = this.connect()
+        }
+
+        const token = this.oauthToken
+        if (token && isExpiring(token)) {
+            // Concurrent calls share one refresh: the old refresh token
+            // stops working once it has been used
+            this.refreshing ??= this.refresh(token).finally(() => {
+                this.refreshing = null
+            })
+            await this.refreshing
+        }
+        return this.client
+    }
+
+    /**
+     * Create the API client from the account's stored OAuth 2.0 token, or
+     * its OAuth 1.0a keys when it has none
+     */
+    private connect(): TwitterApi {
+        if (this.tokens.has(this.account)) {
+            try {
+                this.oauthToken = this.tokens.get(this.account)
+            } catch (error: any) {
+                throw new CredentialsError(
+                    `${ERROR_MESSAGES.MISSING_CREDENTIALS} Cannot read the OAuth 2.0 token of account ${this.account}: ${error.message}`
+                )
+            }
+        }
+
+        return this.oauthToken
+            ? new TwitterApi(this.oauthToken.accessToken)
+            : new TwitterApi({
+                  appKey: this.credentials.apiKey,
+                  appSecret: this.credentials.apiSecret,
+                  accessToken: this.credentials.accessToken,
+                  accessSecret: this.credentials.accessTokenSecret,
+              })
+    }
+
+    private async refresh(token: OAuthToken): Promise<void> {
+        // Another process sharing the token file may have refreshed already
+        const stored = this.tokens.get(this.account)
+        const fresh =
+            stored && !isExpiring(stored)
+                ? stored
+                : await refreshAccessToken(stored ?? token)
+
+        if (fresh !== stored) {
+            this.tokens.save(this.account, fresh)
+            logger.info(`Refreshed OAuth 2.0 access token for account ${this.account}`)
+        }
+        this.oauthToken = fresh
+        this.client = new TwitterApi(fresh.accessToken)
     }
 
     /**
      * Post a tweet using X API v2
      */
-    async postTweet(message: string, replyTo?: string): Promise<TweetResult> {
+    async postTweet(
+        message: string,
+        replyTo?: string,
+        quoteTweetId?: string,
+        mediaIds?: string[]
+    ): Promise<TweetResult> {
         try {
             // Validate tweet length
-            if (message.length > PROCESSING_CONFIG.MAX_TWEET_LENGTH) {
+            if (!fitsInTweet(message, PROCESSING_CONFIG.MAX_TWEET_LENGTH)) {
                 return {
                     success: false,
                     error: ERROR_MESSAGES.TWEET_TOO_LONG,
@@ -40,8 +134,16 @@ export class XAPIClient {
                 tweetParams.reply = { in_reply_to_tweet_id: replyTo }
             }
 
+            if (quoteTweetId) {
+                tweetParams.quote_tweet_id = quoteTweetId
+            }
+
+            if (mediaIds?.length) {
+                tweetParams.media = { media_ids: mediaIds }
+            }
+
             // Post tweet
-            const tweet = await this.client.v2.tweet(tweetParams)
+            const tweet = await (await this.api()).v2.tweet(tweetParams)
 
             if (tweet.data) {
                 const tweetId = tweet.data.id
@@ -60,24 +162,50 @@ export class XAPIClient {
                 throw new Error("No response data received from X API")
             }
         } catch (error: any) {
-            if (error.code === 429) {
-                logger.warn("Rate limit exceeded")
-                return {
-                    success: false,
-                    error: ERROR_MESSAGES.RATE_LIMIT,
-                    retry_after: 900, // 15 minutes
-                }
-            }
+            return this.toErrorResult(error)
+        }
+    }
+
+    /**
+     * Reply to a specific tweet
+     */
+    async replyToTweet(
+        tweetId: string,
+        message: string,
+        mediaIds?: string[]
+    ): Promise<TweetResult> {
+        return this.postTweet(message, tweetId, undefined, mediaIds)
+    }
 
-            // Log detailed error information
-            logger.error(`X API error details:`, {
-                message: error.message,
-                code: error.code,
-                data: error.data,
-                errors: error.errors,
-                status: error.status
+    /**
+     * Quote a specific tweet
+     */
+    async quoteTweet(
+        tweetId: string,
+        message: string,
+        mediaIds?: string[]
+    ): Promise<TweetResult> {
+        return this.postTweet(message, undefined, tweetId, mediaIds)
+    }
+
+    /**
+     * Upload an image through the media upload endpoint
+     * Returns the media ID to attach to a tweet
+     */
+    async uploadMedia(
+        data: Buffer,
+        mimeType: string
+    ): Promise<{ success: boolean; mediaId?: string; error?: string }> {
+        try {
+            const mediaId = await (await this.api()).v2.uploadMedia(data, {
+                media_type: mimeType as EUploadMimeType,
+                media_category: "tweet_image",
             })
-            
+
+            logger.info(`Media uploaded. ID: ${mediaId}`)
+            return { success: true, mediaId }
+        } catch (error: any) {
+            logger.error(`Error uploading media: ${error.message}`)
             return {
                 success: false,
                 error: `X API error: ${error.message}`,
@@ -86,28 +214,108 @@ export class XAPIClient {
     }
 
     /**
-     * Reply to a specific tweet
+     * Delete one of the bot's tweets
      */
-    async replyToTweet(tweetId: string, message: string): Promise<TweetResult> {
-        return this.postTweet(message, tweetId)
+    async deleteTweet(tweetId: string): Promise<TweetResult> {
+        try {
+            const response = await (await this.api()).v2.deleteTweet(tweetId)
+            if (!response.data?.deleted) {
+                throw new Error("X API did not confirm the deletion")
+            }
+
+            logger.info(`Tweet deleted. ID: ${tweetId}`)
+            return { success: true, tweet_id: tweetId }
+        } catch (error: any) {
+            return this.toErrorResult(error)
+        }
+    }
+
+    /**
+     * Map an X API error onto a failed result: rate limits carry the time
+     * until reset, server and network errors are marked retryable
+     */
+    private toErrorResult(error: any): TweetResult {
+        if (error instanceof CredentialsError) {
+            logger.error(error.message)
+            return { success: false, error: error.message }
+        }
+
+        if (error.code === 429) {
+            // Wait until the window reported in x-rate-limit-reset
+            const reset = getRateLimitReset(error)
+            const retryAfter = reset
+                ? Math.max(Math.ceil(reset - Date.now() / 1000), 1)
+                : 900 // 15 minutes
+
+            logger.warn(`Rate limit exceeded, resets in ${retryAfter}s`)
+            return {
+                success: false,
+                error: ERROR_MESSAGES.RATE_LIMIT,
+                retry_after: retryAfter,
+                status_code: 429,
+            }
+        }
+
+        // Log detailed error information
+        logger.error(`X API error details:`, {
+            message: error.message,
+            code: error.code,
+            data: error.data,
+            errors: error.errors,
+            status: error.status
+        })
+
+        const statusCode =
+            typeof error.code === "number" ? error.code : undefined
+
+        return {
+            success: false,
+            error: `X API error: ${error.message}`,
+            ...(statusCode ? { status_code: statusCode } : {}),
+            // Server errors and network failures are transient
+            retryable:
+                (statusCode !== undefined && statusCode >= 500) ||
+                error.type === "request" ||
+                error.type === "partial-response",
+        }
     }
 
     /**
-     * Get information about a specific tweet
+     * Get information about a specific tweet, with its author and media expanded
      */
-    async getTweetInfo(
-        tweetId: string
-    ): Promise<{ success: boolean; tweet?: any; error?: string }> {
+    async getTweetInfo(tweetId: string): Promise<{
+        success: boolean
+        tweet?: any
+        author?: any
+        media?: any[]
+        error?: string
+    }> {
         try {
-            const tweet = await this.client.v2.singleTweet(tweetId, {
-                expansions: ["author_id", "referenced_tweets.id"],
+            const tweet = await (await this.api()).v2.singleTweet(tweetId, {
+                expansions: [
+                    "author_id",
+                    "referenced_tweets.id",
+                    "attachments.media_keys",
+                ],
+                "tweet.fields": ["created_at", "entities", "attachments"],
                 "user.fields": ["username", "name"],
+                "media.fields": ["type", "url", "preview_image_url"],
             })
 
             if (tweet.data) {
+                const author = tweet.includes?.users?.find(
+                    (user) => user.id === tweet.data.author_id
+                )
+                const mediaKeys = tweet.data.attachments?.media_keys || []
+                const media = (tweet.includes?.media || []).filter((item) =>
+                    mediaKeys.includes(item.media_key)
+                )
+
                 return {
                     success: true,
                     tweet: tweet.data,
+                    author,
+                    media,
                 }
             } else {
                 return {
@@ -129,7 +337,7 @@ export class XAPIClient {
      */
     async verifyCredentials(): Promise<boolean> {
         try {
-            const me = await this.client.v2.me()
+            const me = await (await this.api()).v2.me()
             if (me.data) {
                 logger.info(
                     `Credentials verified. Bot username: @${me.data.username}`
@@ -156,26 +364,53 @@ export class XAPIClient {
     // }
 
     /**
-     * Search for tweets matching a query
+     * Search for one page of tweets matching a query, newest first
+     * Pass sinceId to only return tweets newer than a previously seen tweet
+     * (or startTime for tweets posted after a moment), and the returned
+     * nextToken to fetch the following (older) page
      */
     async searchTweets(
         query: string,
-        count: number = 10
-    ): Promise<{ success: boolean; tweets?: any[]; error?: string }> {
+        count: number = 10,
+        sinceId?: string,
+        nextToken?: string,
+        startTime?: Date
+    ): Promise<{
+        success: boolean
+        tweets?: any[]
+        nextToken?: string | undefined
+        error?: string
+    }> {
         try {
-            const paginator = await this.client.v2.search(query, {
-                max_results: Math.min(count, 100),
+            const searchParams: any = {
+                max_results: Math.min(Math.max(count, 10), 100),
+                expansions: ["author_id"],
                 "tweet.fields": ["created_at", "author_id", "text"],
                 "user.fields": ["username", "name"],
-            })
-            const tweets: any[] = []
-            for await (const tweet of paginator) {
-                tweets.push(tweet)
-                if (tweets.length >= count) break
             }
+
+            if (sinceId) {
+                searchParams.since_id = sinceId
+            }
+
+            if (nextToken) {
+                searchParams.next_token = nextToken
+            }
+
+            if (startTime) {
+                searchParams.start_time = startTime.toISOString()
+            }
+
+            // The paginator holds only the requested page until it is iterated
+            const paginator = await (await this.api()).v2.search(query, searchParams)
+            const tweets = paginator.tweets.slice(0, count).map((tweet) => ({
+                ...tweet,
+                author_username: paginator.includes.author(tweet)?.username,
+            }))
             return {
                 success: true,
                 tweets,
+                nextToken: paginator.meta.next_token,
             }
         } catch (error: any) {
             logger.error(`Error searching tweets: ${error.message}`)
@@ -187,14 +422,20 @@ export class XAPIClient {
     }
 
     /**
-     * Check if credentials are properly configured
+     * Check if credentials are properly configured: the OAuth 1.0a keys or
+     * an OAuth 2.0 token stored by `auth login`
      */
-    static validateCredentials(): boolean {
+    static validateCredentials(account?: XAccount): boolean {
+        if (getTokenStore().has(account?.name ?? ACCOUNTS_CONFIG.DEFAULT_ACCOUNT)) {
+            return true
+        }
+
+        const credentials = account?.credentials ?? defaultCredentials()
         const required = [
-            TWITTER_CONFIG.API_KEY,
-            TWITTER_CONFIG.API_SECRET,
-            TWITTER_CONFIG.ACCESS_TOKEN,
-            TWITTER_CONFIG.ACCESS_TOKEN_SECRET,
+            credentials.apiKey,
+            credentials.apiSecret,
+            credentials.accessToken,
+            credentials.accessTokenSecret,
         ]
 
         return required.every(
@@ -202,3 +443,33 @@ export class XAPIClient {
         )
     }
 }
+
+/**
+ * Read the rate limit reset time (epoch seconds) from a twitter-api-v2 error,
+ * falling back to the raw x-rate-limit-reset header
+ */
+function getRateLimitReset(error: any): number | undefined {
+    const reset =
+        error.rateLimit?.reset ?? error.headers?.["x-rate-limit-reset"]
+    const value = Number(reset)
+    return Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Whether an access token expires within OAUTH_CONFIG.REFRESH_MARGIN
+ */
+function isExpiring(token: OAuthToken): boolean {
+    return token.expiresAt.getTime() - OAUTH_CONFIG.REFRESH_MARGIN * 1000 <= Date.now()
+}
+
+/**
+ * Credentials from the TWITTER_* environment variables
+ */
+export function defaultCredentials(): XCredentials {
+    return {
+        apiKey: TWITTER_CONFIG.API_KEY,
+        apiSecret: TWITTER_CONFIG.API_SECRET,
+        accessToken: TWITTER_CONFIG.ACCESS_TOKEN,
+        accessTokenSecret: TWITTER_CONFIG.ACCESS_TOKEN_SECRET,
+    }
+}